@@ -0,0 +1,146 @@
+/**
+ * ATTACH support for Web-SQLite.
+ * Makes other database files reachable from a connection under an alias, for queries across databases.
+ */
+
+import type {
+  AttachOptions,
+  CallOptions,
+  StorageBackend,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError } from "./errors.js";
+import { createRunFunction } from "./exec.js";
+import { sql } from "./sql.js";
+
+/**
+ * Databases attached to a connection: alias to URI filename.
+ * Kept so a replacement worker can attach them again.
+ */
+export type AttachmentRegistry = Map<string, string>;
+
+/**
+ * Builds the URI filename that opens a file with the VFS of a storage backend.
+ *
+ * @param filename - Database filename
+ * @param storage - Storage backend of the file
+ * @returns URI filename for ATTACH
+ */
+const createAttachUri = (filename: string, storage: StorageBackend): string => {
+  // 1. In-memory attachments start empty; the name is irrelevant
+  if (storage === "memory") {
+    return ":memory:";
+  }
+
+  // 2. Escape the characters that are special in URI filenames
+  const path = filename.replace(/[%?#]/g, (char) => encodeURIComponent(char));
+
+  // 3. Return the URI selecting the backend's VFS
+  return `file:${path}?vfs=${storage}`;
+};
+
+/**
+ * Attaches a URI filename under an alias.
+ *
+ * @param promiser - Worker promiser routed to the database
+ * @param alias - Schema name for the attached database
+ * @param uri - URI filename from createAttachUri()
+ * @param options - Optional timeout and abort signal
+ * @returns Promise resolving when the file is attached
+ */
+export const attachDatabase = async (
+  promiser: WorkerPromiseFunction,
+  alias: string,
+  uri: string,
+  options: CallOptions = {},
+): Promise<void> => {
+  // 1. The SAH pool VFS is installed on demand, like when opening a database on it
+  if (uri.endsWith("?vfs=opfs-sahpool")) {
+    await promiser("install-sahpool", {}, options);
+  }
+
+  // 2. Attach the file
+  await createRunFunction(promiser)(
+    sql`ATTACH DATABASE ${uri} AS ${sql.identifier(alias)}`,
+    undefined,
+    options,
+  );
+};
+
+/**
+ * Checks an alias given to attach() or detach().
+ *
+ * @param alias - Alias to check
+ * @throws {WebSQLiteError} If the alias is empty or names a built-in schema
+ */
+const validateAlias = (alias: string): void => {
+  if (!alias || typeof alias !== "string") {
+    throw new WebSQLiteError("Alias must be a non-empty string");
+  }
+  if (["main", "temp"].includes(alias.toLowerCase())) {
+    throw new WebSQLiteError(`Alias "${alias}" is reserved by SQLite`);
+  }
+};
+
+/**
+ * Creates an attach function for one connection.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param attachments - Registry of the connection's attachments
+ * @param defaultStorage - Storage backend of the connection's own database
+ * @returns Function attaching a database file under an alias
+ */
+export const createAttachFunction = (
+  promiser: WorkerPromiseFunction,
+  attachments: AttachmentRegistry,
+  defaultStorage: StorageBackend,
+) => {
+  return async (
+    alias: string,
+    filename: string,
+    options: AttachOptions = {},
+  ): Promise<void> => {
+    // 1. Input validation
+    validateAlias(alias);
+    if (!filename || typeof filename !== "string") {
+      throw new WebSQLiteError("Filename must be a non-empty string");
+    }
+
+    // 2. Attach the file on the requested storage
+    const { storage = defaultStorage, ...callOptions } = options;
+    const uri = createAttachUri(filename, storage);
+    await attachDatabase(promiser, alias, uri, callOptions);
+
+    // 3. Remember it for worker replacement
+    attachments.set(alias, uri);
+  };
+};
+
+/**
+ * Creates a detach function for one connection.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param attachments - Registry of the connection's attachments
+ * @returns Function detaching a database by alias
+ */
+export const createDetachFunction = (
+  promiser: WorkerPromiseFunction,
+  attachments: AttachmentRegistry,
+) => {
+  const run = createRunFunction(promiser);
+
+  return async (alias: string, options: CallOptions = {}): Promise<void> => {
+    // 1. Input validation
+    validateAlias(alias);
+
+    // 2. Detach the database
+    await run(
+      sql`DETACH DATABASE ${sql.identifier(alias)}`,
+      undefined,
+      options,
+    );
+
+    // 3. Forget it
+    attachments.delete(alias);
+  };
+};
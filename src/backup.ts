@@ -0,0 +1,95 @@
+/**
+ * Online backup for Web-SQLite.
+ * Copies the live database to another OPFS file in steps, so other calls keep running in between.
+ */
+
+import type {
+  BackupOptions,
+  BackupProgress,
+  BackupResult,
+  StorageBackend,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { createWorkerError, WebSQLiteError } from "./errors.js";
+
+/**
+ * Pages copied per step when the caller does not say.
+ */
+const DEFAULT_PAGES_PER_STEP = 100;
+
+/**
+ * Creates a backup function copying the database to another OPFS file.
+ * Each step is its own request on the connection queue, copying up to pagesPerStep pages.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param storage - Storage backend of the database, the default backend of the copy
+ * @returns Function to back up the database
+ */
+export const createBackupFunction = (
+  promiser: WorkerPromiseFunction,
+  storage: StorageBackend,
+) => {
+  return async (
+    filename: string,
+    options: BackupOptions = {},
+  ): Promise<BackupResult> => {
+    // 1. Input validation
+    const {
+      pagesPerStep = DEFAULT_PAGES_PER_STEP,
+      onProgress,
+      storage: targetStorage = storage === "memory" ? "opfs" : storage,
+      ...callOptions
+    } = options;
+    if (!filename || typeof filename !== "string") {
+      throw new WebSQLiteError("Filename must be a non-empty string");
+    }
+    if (!Number.isInteger(pagesPerStep) || pagesPerStep < 1) {
+      throw new WebSQLiteError("pagesPerStep must be a positive integer");
+    }
+
+    // 2. Open the target; the SAH pool VFS is installed on demand, like when opening a database on it
+    let backupId: string;
+    try {
+      if (targetStorage === "opfs-sahpool") {
+        await promiser("install-sahpool", {}, callOptions);
+      }
+      ({ backupId } = await promiser(
+        "backup-start",
+        { filename, vfs: targetStorage },
+        callOptions,
+      ));
+    } catch (error) {
+      throw createWorkerError(error, "Database backup");
+    }
+
+    try {
+      // 3. Copy the pages step by step until the worker reports the copy complete
+      let step: BackupProgress & { done: boolean };
+      do {
+        step = await promiser(
+          "backup-step",
+          { backupId, pages: pagesPerStep },
+          callOptions,
+        );
+        const { done: _done, ...progress } = step;
+        onProgress?.(progress);
+      } while (!step.done);
+
+      // 4. Report the copy
+      return {
+        filename,
+        storage: targetStorage,
+        totalPages: step.totalPages,
+        restarts: step.restarts,
+      };
+    } catch (error) {
+      // Release the target even when an aborted signal failed the step; the partial file is left behind
+      await promiser(
+        "backup-finish",
+        { backupId },
+        { signal: undefined },
+      ).catch(() => undefined);
+      throw createWorkerError(error, "Database backup");
+    }
+  };
+};
@@ -0,0 +1,279 @@
+/**
+ * SQL statement classification for Web-SQLite.
+ * A small lexer splits input into statements and tells what each one does, so methods can route by whether it returns rows.
+ */
+
+import type { SqlOperationType, SqlStatementInfo } from "./types.js";
+
+/**
+ * Lexical token of SQL text. Whitespace and comments produce no tokens.
+ */
+export interface SqlToken {
+  /** Token category; quoted identifiers are "identifier", keywords and bare names are "word" */
+  type: "word" | "identifier" | "string" | "number" | "parameter" | "punct";
+  /** Token text as written */
+  text: string;
+  /** Offset of the first character */
+  start: number;
+  /** Offset after the last character */
+  end: number;
+}
+
+/**
+ * Leading keywords of statements that modify rows.
+ */
+const MODIFICATION_KEYWORDS: Record<string, SqlOperationType> = {
+  INSERT: "insert",
+  REPLACE: "insert",
+  UPDATE: "update",
+  DELETE: "delete",
+};
+
+/**
+ * Leading keywords of schema statements.
+ */
+const DDL_KEYWORDS = new Set(["CREATE", "DROP", "ALTER"]);
+
+/**
+ * Finds where a quoted token ends; a doubled closing quote is an escaped quote.
+ *
+ * @param sql - SQL text
+ * @param start - Offset of the opening quote
+ * @param close - Closing quote character
+ * @returns Offset after the closing quote (end of input when unterminated)
+ */
+const findQuoteEnd = (sql: string, start: number, close: string): number => {
+  let index = start + 1;
+  while (index < sql.length) {
+    if (sql[index] === close) {
+      if (close !== "]" && sql[index + 1] === close) {
+        index += 2;
+        continue;
+      }
+      return index + 1;
+    }
+    index++;
+  }
+  return sql.length;
+};
+
+/**
+ * Splits SQL text into tokens, skipping whitespace and comments.
+ *
+ * @param sql - SQL text
+ * @returns Tokens in order
+ */
+export const tokenizeSql = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = [];
+  let index = 0;
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const start = index;
+    let type: SqlToken["type"];
+
+    // 1. Whitespace and comments
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === "-" && sql[index + 1] === "-") {
+      const newline = sql.indexOf("\n", index);
+      index = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+    if (char === "/" && sql[index + 1] === "*") {
+      const close = sql.indexOf("*/", index + 2);
+      index = close === -1 ? sql.length : close + 2;
+      continue;
+    }
+
+    // 2. Quoted strings and identifiers
+    if (char === "'") {
+      type = "string";
+      index = findQuoteEnd(sql, index, "'");
+    } else if (char === '"' || char === "`" || char === "[") {
+      type = "identifier";
+      index = findQuoteEnd(sql, index, char === "[" ? "]" : char);
+    } else if (/[xX]/.test(char) && sql[index + 1] === "'") {
+      // Blob literal X'...'
+      type = "string";
+      index = findQuoteEnd(sql, index + 1, "'");
+    } else if (
+      /[0-9]/.test(char) ||
+      (char === "." && /[0-9]/.test(sql[index + 1] ?? ""))
+    ) {
+      // 3. Numbers, including hex and exponents
+      type = "number";
+      const match = sql
+        .slice(index)
+        .match(/^(?:0[xX][0-9a-fA-F]+|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?\.?)/);
+      index += match![0].length;
+    } else if (char === "?") {
+      // 4. Parameters: ?, ?NNN, :name, @name and $name
+      type = "parameter";
+      index += sql.slice(index).match(/^\?[0-9]*/)![0].length;
+    } else if (
+      /[:@$]/.test(char) &&
+      /[\p{L}\p{N}_]/u.test(sql[index + 1] ?? "")
+    ) {
+      type = "parameter";
+      index += sql.slice(index).match(/^[:@$][\p{L}\p{N}_$]+/u)![0].length;
+    } else if (/[\p{L}_]/u.test(char)) {
+      // 5. Keywords and bare names
+      type = "word";
+      index += sql.slice(index).match(/^[\p{L}\p{N}_$]+/u)![0].length;
+    } else {
+      // 6. Operators and punctuation, one character at a time
+      type = "punct";
+      index++;
+    }
+
+    tokens.push({ type, text: sql.slice(start, index), start, end: index });
+  }
+
+  return tokens;
+};
+
+/**
+ * Reads a token as an uppercase keyword.
+ *
+ * @param token - Token to read
+ * @returns Uppercase text for words, empty string otherwise
+ */
+const keywordOf = (token: SqlToken | undefined): string =>
+  token?.type === "word" ? token.text.toUpperCase() : "";
+
+/**
+ * Splits SQL text into statements at top-level semicolons.
+ * Semicolons inside CREATE TRIGGER bodies (BEGIN ... END) belong to the trigger.
+ *
+ * @param sql - SQL text
+ * @returns Tokens of each non-empty statement, in order
+ */
+export const splitSqlStatements = (sql: string): SqlToken[][] => {
+  const statements: SqlToken[][] = [];
+  let current: SqlToken[] = [];
+  let isTrigger = false;
+  let blockDepth = 0;
+
+  for (const token of tokenizeSql(sql)) {
+    // 1. A semicolon ends the statement unless it sits inside a trigger body
+    if (token.type === "punct" && token.text === ";" && blockDepth === 0) {
+      if (current.length > 0) statements.push(current);
+      current = [];
+      isTrigger = false;
+      continue;
+    }
+    current.push(token);
+
+    // 2. Track trigger bodies; CASE ... END nests inside them
+    const keyword = keywordOf(token);
+    if (
+      current.length <= 4 &&
+      keyword === "TRIGGER" &&
+      keywordOf(current[0]) === "CREATE"
+    ) {
+      isTrigger = true;
+    } else if (isTrigger && (keyword === "BEGIN" || keyword === "CASE")) {
+      blockDepth++;
+    } else if (isTrigger && keyword === "END" && blockDepth > 0) {
+      blockDepth--;
+    }
+  }
+  if (current.length > 0) statements.push(current);
+
+  return statements;
+};
+
+/**
+ * Classifies the tokens of one statement.
+ *
+ * @param sql - SQL text the tokens come from
+ * @param tokens - Tokens of the statement
+ * @returns What the statement does
+ */
+const classifyTokens = (
+  sql: string,
+  tokens: ReadonlyArray<SqlToken>,
+): SqlStatementInfo => {
+  const text = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+  let index = 0;
+
+  // 1. EXPLAIN [QUERY PLAN] describes the statement instead of running it, always as rows
+  const isExplain = keywordOf(tokens[0]) === "EXPLAIN";
+  if (isExplain) {
+    index =
+      keywordOf(tokens[1]) === "QUERY" && keywordOf(tokens[2]) === "PLAN"
+        ? 3
+        : 1;
+  }
+
+  // 2. A WITH clause precedes the statement proper; its keyword is the first one outside the CTE bodies
+  let keyword = keywordOf(tokens[index]);
+  let depth = 0;
+  if (keyword === "WITH") {
+    keyword = "";
+    for (const token of tokens.slice(index + 1)) {
+      if (token.text === "(") depth++;
+      else if (token.text === ")") depth--;
+      const candidate = keywordOf(token);
+      if (
+        depth === 0 &&
+        (candidate in MODIFICATION_KEYWORDS ||
+          candidate === "SELECT" ||
+          candidate === "VALUES")
+      ) {
+        keyword = candidate;
+        break;
+      }
+    }
+  }
+
+  // 3. RETURNING at the top level makes a modification return rows
+  depth = 0;
+  const hasReturning =
+    keyword in MODIFICATION_KEYWORDS &&
+    tokens.some((token) => {
+      if (token.text === "(") depth++;
+      else if (token.text === ")") depth--;
+      return depth === 0 && keywordOf(token) === "RETURNING";
+    });
+
+  // 4. Map the keyword onto an operation
+  const operation: SqlOperationType =
+    keyword === "SELECT" || keyword === "VALUES"
+      ? "select"
+      : (MODIFICATION_KEYWORDS[keyword] ??
+        (DDL_KEYWORDS.has(keyword) ? "ddl" : "utility"));
+
+  return {
+    sql: text,
+    keyword: isExplain
+      ? "EXPLAIN"
+      : keyword || (tokens[index]?.text ?? "").toUpperCase(),
+    operation: isExplain ? "utility" : operation,
+    returnsRows:
+      isExplain ||
+      operation === "select" ||
+      keyword === "PRAGMA" ||
+      hasReturning,
+    returning: hasReturning,
+    start: tokens[0].start,
+  };
+};
+
+/**
+ * Classifies every statement of SQL text.
+ *
+ * @param sql - SQL text, possibly holding comments and several statements
+ * @returns One description per statement, empty statements left out
+ *
+ * @example
+ * ```typescript
+ * classifySql('-- recent\nWITH r AS (SELECT 1) SELECT * FROM r');
+ * // [{ keyword: 'SELECT', operation: 'select', returnsRows: true, returning: false, ... }]
+ * ```
+ */
+export const classifySql = (sql: string): SqlStatementInfo[] =>
+  splitSqlStatements(sql).map((tokens) => classifyTokens(sql, tokens));
@@ -0,0 +1,328 @@
+/**
+ * Value codecs for Web-SQLite.
+ * Convert JS values into storable ones on bind, and stored values back into JS values on read.
+ */
+
+import type {
+  CodecOptions,
+  SqlStoredValue,
+  ValueCodec,
+  WorkerCallOptions,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError } from "./errors.js";
+import {
+  isJsonValue,
+  isSupportedValue,
+  processParameterValue,
+} from "./parameters.js";
+
+/**
+ * Parses a stored date: numbers are epoch milliseconds, text is anything Date understands (ISO 8601).
+ *
+ * @param value - Stored value
+ * @returns Date
+ */
+const parseDate = (value: SqlStoredValue): Date =>
+  new Date(typeof value === "bigint" ? Number(value) : (value as string));
+
+/**
+ * Built-in codecs.
+ *
+ * @example
+ * ```typescript
+ * const db = await webSqlite('app.sqlite3', {
+ *   codecs: {
+ *     types: { DATETIME: codecs.date, BOOLEAN: codecs.boolean, JSON: codecs.json },
+ *     columns: { balance: codecs.bigint },
+ *   },
+ * });
+ * ```
+ */
+export const codecs = {
+  /** Dates stored as ISO 8601 text; reads epoch milliseconds too */
+  date: {
+    accepts: (value: unknown): value is Date => value instanceof Date,
+    encode: (value: Date) => value.toISOString(),
+    decode: parseDate,
+  } satisfies ValueCodec<Date>,
+
+  /** Dates stored as epoch milliseconds; reads ISO 8601 text too */
+  epochDate: {
+    accepts: (value: unknown): value is Date => value instanceof Date,
+    encode: (value: Date) => value.getTime(),
+    decode: parseDate,
+  } satisfies ValueCodec<Date>,
+
+  /** Booleans stored as 1 and 0 */
+  boolean: {
+    accepts: (value: unknown): value is boolean => typeof value === "boolean",
+    encode: (value: boolean) => (value ? 1 : 0),
+    decode: (value: SqlStoredValue) =>
+      typeof value === "string" ? value === "true" || value === "1" : !!value,
+  } satisfies ValueCodec<boolean>,
+
+  /** Plain objects and arrays stored as JSON text */
+  json: {
+    accepts: isJsonValue,
+    encode: (value: object) => JSON.stringify(value),
+    decode: (value: SqlStoredValue) =>
+      typeof value === "string" ? JSON.parse(value) : value,
+  } satisfies ValueCodec<unknown>,
+
+  /** Integers read as bigint whatever their size */
+  bigint: {
+    accepts: (value: unknown): value is bigint => typeof value === "bigint",
+    encode: (value: bigint) => value,
+    decode: (value: SqlStoredValue) =>
+      BigInt(value as string | number | bigint),
+  } satisfies ValueCodec<bigint>,
+};
+
+/**
+ * Combines connection-wide codec options with per-call ones; per-call entries win.
+ *
+ * @param defaults - Options given when opening the database
+ * @param overrides - Options given to one call
+ * @returns Combined options
+ */
+const mergeCodecOptions = (
+  defaults: CodecOptions,
+  overrides: CodecOptions | undefined,
+): CodecOptions =>
+  overrides
+    ? {
+        types: { ...defaults.types, ...overrides.types },
+        columns: { ...defaults.columns, ...overrides.columns },
+        encoders: [...(overrides.encoders ?? []), ...(defaults.encoders ?? [])],
+      }
+    : defaults;
+
+/**
+ * Encodes one bound value: the first accepting encoder wins, then the built-in conversions apply.
+ *
+ * @param value - Bound value
+ * @param encoders - Configured encoders
+ * @returns Value the worker can bind
+ * @throws {Error} If no encoder turns a Map, Set or class instance into a storable value
+ */
+const encodeValue = (
+  value: unknown,
+  encoders: ReadonlyArray<ValueCodec>,
+): unknown => {
+  // 1. Apply the first accepting encoder
+  const codec = encoders.find((candidate) => candidate.accepts?.(value));
+  const encoded = codec?.encode ? codec.encode(value) : value;
+
+  // 2. Refuse objects nothing knows how to store, then apply the built-in conversions
+  if (!isSupportedValue(encoded)) {
+    const kind = (encoded as object).constructor?.name ?? "object";
+    throw new Error(
+      `Cannot bind a ${kind}; convert it first or add an encoder for it`,
+    );
+  }
+  return processParameterValue(encoded);
+};
+
+/**
+ * Encodes positional or named bindings.
+ *
+ * @param bind - Bindings as sent to the worker
+ * @param encoders - Configured encoders
+ * @returns Encoded bindings of the same shape
+ */
+const encodeBindings = (
+  bind: unknown,
+  encoders: ReadonlyArray<ValueCodec>,
+): unknown => {
+  if (bind === undefined || bind === null) {
+    return bind;
+  }
+  if (Array.isArray(bind)) {
+    return bind.map((value) => encodeValue(value, encoders));
+  }
+  return Object.fromEntries(
+    Object.entries(bind as Record<string, unknown>).map(([name, value]) => [
+      name,
+      encodeValue(value, encoders),
+    ]),
+  );
+};
+
+/**
+ * Finds the codec for a declared column type: exact match first, then without the size, e.g. "VARCHAR(20)".
+ *
+ * @param types - Codecs by declared type
+ * @param declaredType - Declared type of the column, or null for expressions
+ * @returns Matching codec, if any
+ */
+const findTypeCodec = (
+  types: Readonly<Record<string, ValueCodec>>,
+  declaredType: string | null,
+): ValueCodec | undefined => {
+  if (!declaredType) {
+    return undefined;
+  }
+  const byType = new Map(
+    Object.entries(types).map(([type, codec]) => [type.toUpperCase(), codec]),
+  );
+  const normalized = declaredType.trim().toUpperCase();
+  return (
+    byType.get(normalized) ?? byType.get(normalized.replace(/\s*\(.*$/, ""))
+  );
+};
+
+/**
+ * Builds a function decoding rows of one result set.
+ *
+ * @param options - Codec options of the call
+ * @param columnNames - Result column names
+ * @param declaredTypes - Declared type of each column
+ * @returns Row decoder, or null when no column has a codec
+ */
+const createRowDecoder = (
+  options: CodecOptions,
+  columnNames: ReadonlyArray<string>,
+  declaredTypes: ReadonlyArray<string | null>,
+): ((row: any) => any) | null => {
+  // 1. Pick a codec per column; explicit column mappings win over declared types, even without a decoder
+  const columns = options.columns ?? {};
+  const decoders = columnNames.map((name, index) =>
+    Object.hasOwn(columns, name)
+      ? columns[name].decode
+      : findTypeCodec(options.types ?? {}, declaredTypes[index] ?? null)
+          ?.decode,
+  );
+  if (decoders.every((decode) => !decode)) {
+    return null;
+  }
+
+  // 2. Decode non-null values; rows are arrays or objects keyed by column name
+  const decode = (index: number, value: any) =>
+    value === null || !decoders[index] ? value : decoders[index](value);
+  return (row) => {
+    if (Array.isArray(row)) {
+      return row.map((value, index) => decode(index, value));
+    }
+    const decoded = { ...row };
+    columnNames.forEach((name, index) => {
+      if (name in decoded) decoded[name] = decode(index, decoded[name]);
+    });
+    return decoded;
+  };
+};
+
+/**
+ * Decodes the rows of a worker result in place, whichever command produced them.
+ *
+ * @param type - Worker command
+ * @param result - Worker result
+ * @param options - Codec options of the call
+ */
+const decodeResult = (
+  type: string,
+  result: any,
+  options: CodecOptions,
+): void => {
+  // 1. query-meta describes its columns; the other commands report names and declared types on request
+  const columnNames: string[] =
+    type === "query-meta"
+      ? result.columns.map((column: { name: string }) => column.name)
+      : (result.columnNames ?? []);
+  const declaredTypes: Array<string | null> =
+    type === "query-meta"
+      ? result.columns.map(
+          (column: { declaredType: string | null }) => column.declaredType,
+        )
+      : (result.declaredTypes ?? []);
+  const decodeRow = createRowDecoder(options, columnNames, declaredTypes);
+  if (!decodeRow) {
+    return;
+  }
+
+  // 2. Decode wherever the command puts its rows
+  for (const key of ["resultRows", "rows"]) {
+    if (Array.isArray(result[key])) {
+      result[key] = result[key].map(decodeRow);
+    }
+  }
+  if (result.row) {
+    result.row = decodeRow(result.row);
+  }
+};
+
+/**
+ * Commands returning rows, which report declared types when asked to.
+ */
+const ROW_COMMANDS = new Set([
+  "exec",
+  "query-meta",
+  "statement-all",
+  "statement-get",
+  "cursor-next",
+]);
+
+/**
+ * Wraps a promiser so bound values are encoded and result rows decoded.
+ * Per-call codec options arrive through the call options and are merged over the defaults.
+ *
+ * @param promiser - Worker promiser function
+ * @param defaults - Codec options given when opening the database
+ * @returns Promiser applying the codecs
+ */
+export const withCodecs = (
+  promiser: WorkerPromiseFunction,
+  defaults: CodecOptions = {},
+): WorkerPromiseFunction => {
+  return async (
+    type: string,
+    args?: any,
+    { codecs: callCodecs, ...options }: WorkerCallOptions = {},
+  ) => {
+    // 1. Encode bound values, including every parameter set of a bulk request
+    const codecOptions = mergeCodecOptions(defaults, callCodecs);
+    const encoders = codecOptions.encoders ?? [];
+    let request = args;
+    if (args && typeof args === "object") {
+      try {
+        request = { ...args };
+        if ("bind" in args) request.bind = encodeBindings(args.bind, encoders);
+        if (Array.isArray(args.rows)) {
+          request.rows = args.rows.map((bind: unknown) =>
+            encodeBindings(bind, encoders),
+          );
+        }
+      } catch (error) {
+        throw new WebSQLiteError(
+          `Failed to encode parameters: ${(error as Error).message}`,
+          error as Error,
+        );
+      }
+    }
+
+    // 2. Ask for declared types only when some column could be decoded
+    const isDecoding =
+      ROW_COMMANDS.has(type) &&
+      (Object.keys(codecOptions.types ?? {}).length > 0 ||
+        Object.keys(codecOptions.columns ?? {}).length > 0);
+    const isQuery = type !== "exec" || Array.isArray(request?.resultRows);
+    if (isDecoding && isQuery && type !== "query-meta") {
+      request.declaredTypes = true;
+      if (type === "exec") request.columnNames = [];
+    }
+
+    // 3. Run the request and decode its rows
+    const result = await promiser(type, request, options);
+    if (isDecoding && isQuery && result) {
+      try {
+        decodeResult(type, result, codecOptions);
+      } catch (error) {
+        throw new WebSQLiteError(
+          `Failed to decode result: ${(error as Error).message}`,
+          error as Error,
+        );
+      }
+    }
+    return result;
+  };
+};
@@ -0,0 +1,265 @@
+/**
+ * Connection management for Web-SQLite.
+ * Opens one database on a worker host and routes its requests to it, across worker replacements.
+ */
+
+import type {
+  CodecOptions,
+  DatabaseEventMap,
+  DatabaseState,
+  Migration,
+  QueryHooks,
+  StateChangeListener,
+  StorageBackend,
+  StorageOption,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError } from "./errors.js";
+import { createDatabaseEventHub, type WorkerEventHub } from "./events.js";
+import type { WorkerHost } from "./host.js";
+import { closeDatabase, openDatabase } from "./worker.js";
+import { resolveStorageBackend } from "./storage.js";
+import { createConnectionScheduler } from "./scheduler.js";
+import { createTransactionFunction } from "./transaction.js";
+import { createMigrateFunction } from "./migrations.js";
+import { attachDatabase, type AttachmentRegistry } from "./attach.js";
+import { withCodecs } from "./codecs.js";
+import { restoreFunctions, type FunctionRegistry } from "./functions.js";
+import { restoreStatements, type StatementRegistry } from "./statement.js";
+import { withTracing } from "./tracing.js";
+
+/**
+ * Settings for opening a connection.
+ */
+export interface ConnectionSettings {
+  /** Codecs applied to every request of the database */
+  codecs?: CodecOptions;
+  /** Hooks told about every statement sent to SQLite */
+  hooks?: QueryHooks;
+  /** Migrations re-applied when reconnecting, so in-memory databases get their schema back */
+  migrations?: ReadonlyArray<Migration>;
+  /** Close the host together with the connection, for a worker dedicated to this database */
+  ownsHost?: boolean;
+}
+
+/**
+ * Database connection that survives worker replacement.
+ */
+export interface Connection {
+  /** Promiser targeting this database on the current worker; calls made while reconnecting wait for it */
+  promiser: WorkerPromiseFunction;
+
+  /** Storage backend the database was opened on */
+  storage: StorageBackend;
+
+  /** Unsolicited worker messages concerning this database */
+  events: WorkerEventHub;
+
+  /** Databases attached to this one, attached again after worker replacement */
+  attachments: AttachmentRegistry;
+
+  /** User-defined SQL functions, registered again after worker replacement */
+  functions: FunctionRegistry;
+
+  /** Live prepared statements, prepared again after worker replacement */
+  statements: StatementRegistry;
+
+  /** Current health of the connection */
+  readonly state: DatabaseState;
+
+  /** Number of times the worker has crashed; changes as soon as the current worker dies */
+  readonly generation: number;
+
+  /**
+   * Registers a listener for state changes.
+   *
+   * @param listener - Listener to call on each change
+   * @returns Function removing the listener
+   */
+  onStateChange(listener: StateChangeListener): () => void;
+
+  /**
+   * Closes the database, and the worker too if the connection owns it.
+   * Must run after every other call has settled; the scheduler guarantees that.
+   *
+   * @returns Promise resolving once the database is closed
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Maps a lifecycle event onto the connection's state changes.
+ *
+ * @param connection - Connection to observe
+ * @param event - Event name
+ * @param listener - Listener to call for each occurrence
+ * @returns Function removing the listener
+ */
+export const subscribeLifecycleEvent = <E extends keyof DatabaseEventMap>(
+  connection: Connection,
+  event: E,
+  listener: DatabaseEventMap[E],
+): (() => void) => {
+  // 1. Each event corresponds to one state
+  const states: Record<keyof DatabaseEventMap, DatabaseState> = {
+    open: "open",
+    close: "closed",
+    error: "crashed",
+  };
+  if (!(event in states)) {
+    throw new WebSQLiteError(`Unknown database event: ${String(event)}`);
+  }
+
+  // 2. Forward matching state changes
+  return connection.onStateChange((state, error) => {
+    if (state !== states[event]) {
+      return;
+    }
+    if (event === "error") {
+      (listener as DatabaseEventMap["error"])(error as Error);
+    } else {
+      (listener as () => void)();
+    }
+  });
+};
+
+/**
+ * Wraps a promiser so every request targets one database of the worker.
+ *
+ * @param promiser - Worker promiser function
+ * @param getDbId - Returns the database's worker id
+ * @returns Routed promiser
+ */
+const routePromiser =
+  (
+    promiser: WorkerPromiseFunction,
+    getDbId: () => string,
+  ): WorkerPromiseFunction =>
+  (type, args, options = {}) =>
+    promiser(type, args, { ...options, dbId: getDbId() });
+
+/**
+ * Opens a database on a worker host and keeps it reachable across worker crashes.
+ * Migrations are not applied on the first open; the caller runs them through the database interface.
+ *
+ * @param host - Worker host to open the database on
+ * @param filename - Database filename
+ * @param storage - Requested storage option
+ * @param settings - Codecs, query hooks, migrations to re-apply and whether the connection owns the host
+ * @returns Promise resolving to the open connection
+ */
+export const openConnection = async (
+  host: WorkerHost,
+  filename: string,
+  storage: StorageOption,
+  settings: ConnectionSettings = {},
+): Promise<Connection> => {
+  // 1. Open database on the requested (or best available) storage
+  const backend = await resolveStorageBackend(host.promiser, storage);
+  let dbId = await openDatabase(host.promiser, filename, backend);
+  const attachments: AttachmentRegistry = new Map();
+  const functions: FunctionRegistry = new Map();
+  const statements: StatementRegistry = new Map();
+  const listeners = new Set<StateChangeListener>();
+  let isClosed = false;
+
+  const notify = (state: DatabaseState, error?: Error): void => {
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(state, error);
+      } catch (listenerError) {
+        console.error("Database state listener failed:", listenerError);
+      }
+    }
+  };
+
+  // 2. Reopen the file, its attachments, functions, schema and statements on a replacement worker
+  const unregister = host.register({
+    reopen: async (promiser) => {
+      const nextId = await openDatabase(promiser, filename, backend);
+      const routed = withCodecs(
+        withTracing(
+          routePromiser(promiser, () => nextId),
+          settings.hooks,
+          host.redactParameters,
+        ),
+        settings.codecs,
+      );
+      for (const [alias, uri] of attachments) {
+        await attachDatabase(routed, alias, uri);
+      }
+      await restoreFunctions(routed, functions);
+      if (settings.migrations) {
+        const migrate = createMigrateFunction(
+          createTransactionFunction(createConnectionScheduler(routed)),
+        );
+        await migrate(settings.migrations);
+      }
+      await restoreStatements(routed, statements);
+      dbId = nextId;
+    },
+  });
+
+  // 3. Follow the host's state until the connection is closed
+  const unsubscribe = host.onStateChange((state, error) => {
+    if (!isClosed) {
+      notify(state, error);
+    }
+  });
+
+  // 4. Return the connection
+  const routed = routePromiser(host.promiser, () => dbId);
+  const traced = withTracing(routed, settings.hooks, host.redactParameters);
+  const encoded = withCodecs(async (type, args, options) => {
+    // The id changes when the worker is replaced, so read it once reconnection has settled
+    await host.whenReady();
+    return traced(type, args, options);
+  }, settings.codecs);
+  return {
+    promiser: encoded,
+
+    storage: backend,
+
+    events: createDatabaseEventHub(host.events, () => dbId),
+
+    attachments,
+
+    functions,
+
+    statements,
+
+    get state() {
+      return isClosed ? "closed" : host.state;
+    },
+
+    get generation() {
+      return host.generation;
+    },
+
+    onStateChange: (listener: StateChangeListener): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    close: async (): Promise<void> => {
+      // 1. Let a reconnection in progress settle, then close the database unless its worker died
+      await host.whenReady();
+      try {
+        if (host.state === "open") {
+          await closeDatabase(routed);
+        }
+      } finally {
+        // 2. Stop following the host, and stop the worker if it served only this database
+        isClosed = true;
+        unregister();
+        unsubscribe();
+        if (settings.ownsHost) {
+          await host.close();
+        }
+        notify("closed");
+      }
+    },
+  };
+};
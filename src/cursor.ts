@@ -0,0 +1,176 @@
+/**
+ * Streaming cursor support for Web-SQLite.
+ * Rows are pulled from the worker in batches instead of one large message.
+ */
+
+import type {
+  CallOptions,
+  SqlInput,
+  SqlParameters,
+  WorkerPromiseFunction,
+  IterateOptions,
+} from "./types.js";
+import {
+  validateSqlInput,
+  createWorkerError,
+  WebSQLiteAbortError,
+} from "./errors.js";
+import { bindParameters, validateParameterTypes } from "./parameters.js";
+import { expectRowStatement } from "./exec.js";
+import { resolveSqlInput } from "./sql.js";
+
+/**
+ * Number of rows fetched per worker round trip when no batch size is given.
+ */
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Creates the async iterator that opens a worker-side cursor on first use and drains it batch by batch.
+ * Calls run one at a time in call order, so concurrent next() calls share one cursor and get distinct rows.
+ *
+ * @param promiser - Worker promiser function
+ * @param sql - SELECT statement
+ * @param parameters - Optional parameters
+ * @param batchSize - Rows requested per round trip
+ * @param options - Timeout and abort signal applied to every round trip
+ * @returns Async iterator over the cursor rows
+ */
+const createCursorIterator = <T>(
+  promiser: WorkerPromiseFunction,
+  sql: string,
+  parameters: SqlParameters | undefined,
+  batchSize: number,
+  options: CallOptions,
+): AsyncIterableIterator<T> => {
+  let cursorId: string | null = null;
+  let buffer: T[] = [];
+  let isDone = false;
+  let tail: Promise<unknown> = Promise.resolve();
+
+  const serialize = <R>(step: () => Promise<R>): Promise<R> => {
+    // A failed call must not block the ones made after it
+    const run = tail.then(step, step);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  const openCursor = async (): Promise<string> => {
+    try {
+      const result = await promiser(
+        "cursor-open",
+        { sql, bind: bindParameters(parameters) },
+        options,
+      );
+      return result.cursorId;
+    } catch (error) {
+      isDone = true;
+      throw createWorkerError(error, "Cursor open");
+    }
+  };
+
+  const fetchBatch = async (): Promise<void> => {
+    cursorId ??= await openCursor();
+    try {
+      const result = await promiser(
+        "cursor-next",
+        { cursorId, batchSize },
+        options,
+      );
+      buffer = result.rows as T[];
+      isDone = result.done;
+    } catch (error) {
+      // The worker releases a failed cursor itself, but an aborted fetch may never have reached it
+      isDone = true;
+      if (error instanceof WebSQLiteAbortError) {
+        promiser("statement-finalize", { statementId: cursorId }).catch(
+          () => undefined,
+        );
+      }
+      throw createWorkerError(error, "Cursor fetch", { sql });
+    }
+  };
+
+  const iterator: AsyncIterableIterator<T> = {
+    next: (): Promise<IteratorResult<T>> =>
+      serialize(async () => {
+        // 1. Refill the buffer when it runs dry
+        if (buffer.length === 0 && !isDone) {
+          await fetchBatch();
+        }
+
+        // 2. Hand out the next buffered row
+        if (buffer.length > 0) {
+          return { value: buffer.shift() as T, done: false };
+        }
+
+        // 3. Exhausted
+        return { value: undefined, done: true };
+      }),
+
+    return: (): Promise<IteratorResult<T>> =>
+      serialize(async () => {
+        // 1. Early exit (e.g. `break`) releases the statement in the worker
+        buffer = [];
+        const wasOpen = !isDone && cursorId !== null;
+        isDone = true;
+        if (wasOpen) {
+          try {
+            await promiser("statement-finalize", { statementId: cursorId });
+          } catch (error) {
+            throw createWorkerError(error, "Cursor close");
+          }
+        }
+
+        // 2. Report completion
+        return { value: undefined, done: true };
+      }),
+
+    [Symbol.asyncIterator]: () => iterator,
+  };
+
+  return iterator;
+};
+
+/**
+ * Creates an iterate function for SELECT operations streaming rows in batches.
+ * The cursor is opened in the worker when the first row is requested.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @returns Function returning an async iterator over the query rows
+ */
+export const createIterateFunction = (promiser: WorkerPromiseFunction) => {
+  return <T>(
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: IterateOptions = {},
+  ): AsyncIterableIterator<T> => {
+    // 1. Input validation
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    validateSqlInput(sql, parameters);
+    expectRowStatement(sql);
+    if (parameters && !validateParameterTypes(parameters)) {
+      throw createWorkerError(
+        new Error("Invalid parameter types"),
+        "Parameter validation",
+      );
+    }
+
+    // 2. Resolve the batch size
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw createWorkerError(
+        new Error("batchSize must be a positive integer"),
+        "Cursor validation",
+      );
+    }
+
+    // 3. Return the lazily opened iterator
+    return createCursorIterator<T>(
+      promiser,
+      sql,
+      parameters,
+      batchSize,
+      options,
+    );
+  };
+};
@@ -2,10 +2,38 @@
  * Error handling utilities for Web-SQLite.
  */
 
-import { WebSQLiteError } from "./types.js";
+import {
+  WebSQLiteError,
+  WebSQLiteAbortError,
+  ConstraintError,
+  BusyError,
+  StorageFullError,
+  WorkerCrashedError,
+  DatabaseClosedError,
+  type StorageOption,
+  type WebSQLiteErrorDetails,
+} from "./types.js";
 
-// Re-export WebSQLiteError for convenience
-export { WebSQLiteError };
+// Re-export the error classes for convenience
+export {
+  WebSQLiteError,
+  WebSQLiteAbortError,
+  ConstraintError,
+  BusyError,
+  StorageFullError,
+  WorkerCrashedError,
+  DatabaseClosedError,
+};
+
+/**
+ * Error subclass for each primary SQLite result code that has one.
+ */
+const ERROR_CLASSES: Readonly<Record<string, typeof WebSQLiteError>> = {
+  SQLITE_CONSTRAINT: ConstraintError,
+  SQLITE_BUSY: BusyError,
+  SQLITE_LOCKED: BusyError,
+  SQLITE_FULL: StorageFullError,
+};
 
 /**
  * Validates SQL input parameters.
@@ -35,27 +63,68 @@ export const validateSqlInput = (sql: string, parameters?: any): void => {
 export const isValidParameters = (params: any): boolean =>
   Array.isArray(params) || (typeof params === "object" && params !== null);
 
+/**
+ * Reads the SQLite details of an error: a WebSQLiteError raised further down the stack,
+ * or a worker error envelope carrying the result code.
+ *
+ * @param error - The original error
+ * @returns Details found on the error
+ */
+const readErrorDetails = (error: any): WebSQLiteErrorDetails => {
+  if (
+    !(error instanceof WebSQLiteError) &&
+    typeof error?.resultCode !== "number"
+  ) {
+    return {};
+  }
+  const { resultCode, code, extendedCode, sql, parameters, location } = error;
+  return { resultCode, code, extendedCode, sql, parameters, location };
+};
+
 /**
  * Creates a WebSQLiteError from a worker error.
+ * The SQLite codes are kept, and the subclass matching them (e.g. ConstraintError) is used.
+ * Abort, crash and closed errors are returned unchanged so callers can still tell them apart.
  *
  * @param error - The original error
  * @param context - Additional context about the operation
+ * @param details - Statement details to attach when the error does not carry them yet
  * @returns A properly formatted WebSQLiteError
  */
 export const createWorkerError = (
   error: any,
   context: string,
+  details: WebSQLiteErrorDetails = {},
 ): WebSQLiteError => {
+  if (
+    error instanceof WebSQLiteAbortError ||
+    error instanceof WorkerCrashedError ||
+    error instanceof DatabaseClosedError
+  ) {
+    return error;
+  }
   const message = error?.message || error?.toString() || "Unknown worker error";
-  return new WebSQLiteError(`${context}: ${message}`, error);
+  const errorDetails = readErrorDetails(error);
+  const ErrorClass =
+    (errorDetails.code && ERROR_CLASSES[errorDetails.code]) || WebSQLiteError;
+  return new ErrorClass(`${context}: ${message}`, error, {
+    ...errorDetails,
+    sql: errorDetails.sql ?? details.sql,
+    parameters: errorDetails.parameters ?? details.parameters,
+    location: errorDetails.location ?? details.location,
+  });
 };
 
 /**
  * Validates browser support for required features.
+ * OPFS is only required for the OPFS-backed storage options.
  *
+ * @param storage - Requested storage option
  * @throws {WebSQLiteError} If required features are not supported
  */
-export const validateBrowserSupport = (): void => {
+export const validateBrowserSupport = (
+  storage: StorageOption = "opfs",
+): void => {
   // 1. Worker support check
   if (typeof Worker === "undefined") {
     throw new WebSQLiteError(
@@ -64,6 +133,9 @@ export const validateBrowserSupport = (): void => {
   }
 
   // 2. OPFS support check
+  if (storage !== "opfs" && storage !== "opfs-sahpool") {
+    return;
+  }
   if (!("storage" in navigator) || !("getDirectory" in navigator.storage)) {
     throw new WebSQLiteError(
       "Origin Private File System (OPFS) not supported. Please use Chrome 86+ or Safari 15.2+.",
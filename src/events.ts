@@ -0,0 +1,94 @@
+/**
+ * Worker event dispatching for Web-SQLite.
+ * Routes messages the worker posts on its own (not replies to a request) to subscribers.
+ */
+
+import type { WorkerResponse } from "./types.js";
+
+/**
+ * Listener for unsolicited worker messages.
+ */
+export type WorkerEventListener = (event: WorkerResponse) => void;
+
+/**
+ * Fan-out point for unsolicited worker messages, keyed by message type.
+ */
+export interface WorkerEventHub {
+  /**
+   * Delivers a worker message to the listeners of its type.
+   *
+   * @param event - Message posted by the worker
+   */
+  emit(event: WorkerResponse): void;
+
+  /**
+   * Registers a listener for one message type.
+   *
+   * @param type - Worker message type to listen for
+   * @param listener - Listener to call for each message
+   * @returns Function removing the listener
+   */
+  subscribe(type: string, listener: WorkerEventListener): () => void;
+}
+
+/**
+ * Creates an event hub for one worker.
+ *
+ * @returns Event hub
+ */
+export const createWorkerEventHub = (): WorkerEventHub => {
+  const listeners = new Map<string, Set<WorkerEventListener>>();
+
+  return {
+    emit: (event: WorkerResponse): void => {
+      // 1. Copy so listeners may unsubscribe while being notified
+      const targets = Array.from(listeners.get(event.type) ?? []);
+
+      // 2. A failing listener must not starve the others
+      for (const listener of targets) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error(
+            `Worker event listener for "${event.type}" failed:`,
+            error,
+          );
+        }
+      }
+    },
+
+    subscribe: (type: string, listener: WorkerEventListener): (() => void) => {
+      // 1. Register the listener
+      const typeListeners = listeners.get(type) ?? new Set();
+      typeListeners.add(listener);
+      listeners.set(type, typeListeners);
+
+      // 2. Return the matching unsubscribe function
+      return () => {
+        typeListeners.delete(listener);
+      };
+    },
+  };
+};
+
+/**
+ * Narrows a worker's event hub to one of the databases it hosts.
+ * Events that name no database reach every subscriber.
+ *
+ * @param hub - Event hub of the worker
+ * @param getDbId - Returns the database's current worker id (it changes when the worker is replaced)
+ * @returns Event hub for the database
+ */
+export const createDatabaseEventHub = (
+  hub: WorkerEventHub,
+  getDbId: () => string,
+): WorkerEventHub => ({
+  emit: hub.emit,
+
+  subscribe: (type: string, listener: WorkerEventListener): (() => void) =>
+    hub.subscribe(type, (event) => {
+      if (event.dbId === undefined || event.dbId === getDbId()) {
+        listener(event);
+      }
+    }),
+});
@@ -4,58 +4,115 @@
  */
 
 import type {
+  CallOptions,
+  SqlInput,
   SqlParameters,
   WorkerPromiseFunction,
   ModificationResult,
-  TransactionStatement,
+  ReturningResult,
+  BulkModificationResult,
+  ExecuteManyOptions,
+  QueryResultWithMeta,
+  QueryWithMetaOptions,
+  SqlOperationType,
+  SqlStatementInfo,
 } from "./types.js";
 import { validateSqlInput, createWorkerError } from "./errors.js";
 import { bindParameters, validateParameterTypes } from "./parameters.js";
-
-/**
- * SQL operation types for routing to appropriate handlers.
- */
-type SqlOperationType =
-  | "select"
-  | "insert"
-  | "update"
-  | "delete"
-  | "ddl"
-  | "utility";
+import { resolveSqlInput } from "./sql.js";
+import { classifySql } from "./classifier.js";
 
 /**
  * Analyzes SQL statement to determine its operation type.
  *
  * @param sql - SQL statement to analyze
- * @returns Operation type for routing to appropriate handler
+ * @returns Operation type of the first statement, "utility" when there is none
  */
-export const analyzeSqlOperation = (sql: string): SqlOperationType => {
-  // 1. Normalize SQL for analysis
-  const normalizedSql = sql.trim().toLowerCase();
+export const analyzeSqlOperation = (sql: string): SqlOperationType =>
+  classifySql(sql)[0]?.operation ?? "utility";
 
-  // 2. Check for SELECT operations
-  if (/^select\s/.test(normalizedSql)) {
-    return "select";
+/**
+ * Classifies the input of a method that runs exactly one statement.
+ *
+ * @param sql - SQL text
+ * @returns Description of the statement
+ * @throws {WebSQLiteError} If the text holds no statement, or several
+ */
+export const classifySingleStatement = (sql: string): SqlStatementInfo => {
+  const statements = classifySql(sql);
+  if (statements.length !== 1) {
+    throw createWorkerError(
+      new Error(
+        statements.length === 0
+          ? "No SQL statement found"
+          : `Expected a single statement, got ${statements.length}; use run() for scripts`,
+      ),
+      "SQL operation type mismatch",
+    );
   }
+  return statements[0];
+};
 
-  // 3. Check for data modification operations
-  if (/^insert\s/.test(normalizedSql)) {
-    return "insert";
-  }
-  if (/^update\s/.test(normalizedSql)) {
-    return "update";
-  }
-  if (/^delete\s/.test(normalizedSql)) {
-    return "delete";
+/**
+ * Checks that the input is one statement producing rows.
+ *
+ * @param sql - SQL text
+ * @returns Description of the statement
+ * @throws {WebSQLiteError} If the statement returns no rows
+ */
+export const expectRowStatement = (sql: string): SqlStatementInfo => {
+  const statement = classifySingleStatement(sql);
+  if (!statement.returnsRows) {
+    throw createWorkerError(
+      new Error(
+        `Expected a statement returning rows (SELECT, VALUES, PRAGMA, EXPLAIN or RETURNING), got ${statement.keyword}`,
+      ),
+      "SQL operation type mismatch",
+    );
   }
+  return statement;
+};
 
-  // 4. Check for DDL operations
-  if (/^(create|drop|alter)\s/.test(normalizedSql)) {
-    return "ddl";
+/**
+ * Checks that the input is one INSERT, REPLACE, UPDATE or DELETE statement.
+ *
+ * @param sql - SQL text
+ * @returns Description of the statement
+ * @throws {WebSQLiteError} If the statement modifies no rows
+ */
+export const expectModificationStatement = (sql: string): SqlStatementInfo => {
+  const statement = classifySingleStatement(sql);
+  if (!["insert", "update", "delete"].includes(statement.operation)) {
+    throw createWorkerError(
+      new Error(
+        `Expected INSERT/UPDATE/DELETE statement, got ${statement.keyword}`,
+      ),
+      "SQL operation type mismatch",
+    );
   }
+  return statement;
+};
 
-  // 5. Default to utility operations
-  return "utility";
+/**
+ * Reads the change count and insert row ID of a modification from a worker exec result.
+ *
+ * @param result - Raw worker result of an exec run with reportChanges
+ * @param operation - Operation of the statement
+ * @returns Modification result; the row ID is only reported for inserts that changed rows
+ */
+export const toModificationResult = (
+  result: any,
+  operation: SqlOperationType,
+): ModificationResult => {
+  const changes = Number(result?.changeCount ?? 0);
+  const rowid = result?.lastInsertRowId;
+  return {
+    changes,
+    lastInsertRowid:
+      operation === "insert" && changes > 0 && rowid != null
+        ? Number(rowid)
+        : null,
+  };
 };
 
 /**
@@ -65,13 +122,17 @@ export const analyzeSqlOperation = (sql: string): SqlOperationType => {
  * @param sql - SQL statement
  * @param parameters - Optional parameters
  * @param forceResultRows - Whether to force resultRows for SELECT operations
+ * @param options - Optional timeout and abort signal
+ * @param reportChanges - Whether the worker reports the change count and last insert row ID
  * @returns Raw worker result
  */
-const executeWorkerRequest = async (
+export const executeWorkerRequest = async (
   promiser: WorkerPromiseFunction,
   sql: string,
   parameters?: SqlParameters,
   forceResultRows: boolean = false,
+  options: CallOptions = {},
+  reportChanges: boolean = false,
 ): Promise<any> => {
   // 1. Input validation
   validateSqlInput(sql, parameters);
@@ -99,7 +160,13 @@ const executeWorkerRequest = async (
       config.resultRows = [];
     }
 
-    const result = await promiser("exec", config);
+    // Modifications ask the worker for changeCount and lastInsertRowId
+    if (reportChanges) {
+      config.countChanges = true;
+      config.lastInsertRowId = true;
+    }
+
+    const result = await promiser("exec", config, options);
     return result;
   } catch (error) {
     throw createWorkerError(error, "SQL execution");
@@ -110,21 +177,31 @@ const executeWorkerRequest = async (
  * Creates a query function for SELECT operations returning arrays.
  *
  * @param promiser - Worker promiser function for database communication
+ * @param observe - Optional callback told about every statement that ran, e.g. for diagnostics
  * @returns Function to execute SELECT statements and return typed arrays
  */
-export const createQueryFunction = (promiser: WorkerPromiseFunction) => {
-  return async <T>(sql: string, parameters?: SqlParameters): Promise<T[]> => {
-    // 1. Validate operation type
-    const opType = analyzeSqlOperation(sql);
-    if (opType !== "select") {
-      throw createWorkerError(
-        new Error(`Expected SELECT statement, got ${opType.toUpperCase()}`),
-        "SQL operation type mismatch",
-      );
-    }
+export const createQueryFunction = (
+  promiser: WorkerPromiseFunction,
+  observe?: (sql: string, parameters?: SqlParameters) => void,
+) => {
+  return async <T>(
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
+  ): Promise<T[]> => {
+    // 1. Resolve sql`...` fragments and check that the statement returns rows
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    expectRowStatement(sql);
 
     // 2. Execute query with result rows
-    const result = await executeWorkerRequest(promiser, sql, parameters, true);
+    const result = await executeWorkerRequest(
+      promiser,
+      sql,
+      parameters,
+      true,
+      options,
+    );
+    observe?.(sql, parameters);
 
     // 3. Return typed result array
     if (Array.isArray(result.resultRows)) {
@@ -140,24 +217,31 @@ export const createQueryFunction = (promiser: WorkerPromiseFunction) => {
  * Creates a queryOne function for SELECT operations returning single rows.
  *
  * @param promiser - Worker promiser function for database communication
+ * @param observe - Optional callback told about every statement that ran, e.g. for diagnostics
  * @returns Function to execute SELECT statements and return single typed rows
  */
-export const createQueryOneFunction = (promiser: WorkerPromiseFunction) => {
+export const createQueryOneFunction = (
+  promiser: WorkerPromiseFunction,
+  observe?: (sql: string, parameters?: SqlParameters) => void,
+) => {
   return async <T>(
-    sql: string,
-    parameters?: SqlParameters,
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
   ): Promise<T | null> => {
-    // 1. Validate operation type
-    const opType = analyzeSqlOperation(sql);
-    if (opType !== "select") {
-      throw createWorkerError(
-        new Error(`Expected SELECT statement, got ${opType.toUpperCase()}`),
-        "SQL operation type mismatch",
-      );
-    }
+    // 1. Resolve sql`...` fragments and check that the statement returns rows
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    expectRowStatement(sql);
 
     // 2. Execute query with result rows
-    const result = await executeWorkerRequest(promiser, sql, parameters, true);
+    const result = await executeWorkerRequest(
+      promiser,
+      sql,
+      parameters,
+      true,
+      options,
+    );
+    observe?.(sql, parameters);
 
     // 3. Return first row or null
     if (Array.isArray(result.resultRows) && result.resultRows.length > 0) {
@@ -168,6 +252,54 @@ export const createQueryOneFunction = (promiser: WorkerPromiseFunction) => {
   };
 };
 
+/**
+ * Creates a queryWithMeta function for SELECT operations returning rows and column metadata.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @returns Function to execute SELECT statements and describe their columns
+ */
+export const createQueryWithMetaFunction = (
+  promiser: WorkerPromiseFunction,
+) => {
+  return async <T>(
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: QueryWithMetaOptions = {},
+  ): Promise<QueryResultWithMeta<T>> => {
+    // 1. Resolve sql`...` fragments and validate input
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    validateSqlInput(sql, parameters);
+    expectRowStatement(sql);
+    const rowMode = options.rowMode ?? "object";
+    if (rowMode !== "object" && rowMode !== "array") {
+      throw createWorkerError(
+        new Error(`Unknown row mode: ${rowMode}`),
+        "Query validation",
+      );
+    }
+    if (parameters && !validateParameterTypes(parameters)) {
+      throw createWorkerError(
+        new Error("Invalid parameter types"),
+        "Parameter validation",
+      );
+    }
+
+    // 2. Execute query; the worker describes the columns before stepping
+    try {
+      const result = await promiser(
+        "query-meta",
+        { sql, bind: bindParameters(parameters), rowMode },
+        options,
+      );
+
+      // 3. Return columns and typed rows
+      return { columns: result.columns, rows: result.rows as T[] };
+    } catch (error) {
+      throw createWorkerError(error, "SQL execution");
+    }
+  };
+};
+
 /**
  * Creates an execute function for data modification operations.
  *
@@ -176,159 +308,169 @@ export const createQueryOneFunction = (promiser: WorkerPromiseFunction) => {
  */
 export const createExecuteFunction = (promiser: WorkerPromiseFunction) => {
   return async (
-    sql: string,
-    parameters?: SqlParameters,
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
   ): Promise<ModificationResult> => {
-    // 1. Validate operation type
-    const opType = analyzeSqlOperation(sql);
-    if (!["insert", "update", "delete"].includes(opType)) {
-      throw createWorkerError(
-        new Error(
-          `Expected INSERT/UPDATE/DELETE statement, got ${opType.toUpperCase()}`,
-        ),
-        "SQL operation type mismatch",
-      );
-    }
+    // 1. Resolve sql`...` fragments and validate operation type
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    const { operation } = expectModificationStatement(sql);
 
     // 2. Execute modification without result rows
-    const result = await executeWorkerRequest(promiser, sql, parameters, false);
+    const result = await executeWorkerRequest(
+      promiser,
+      sql,
+      parameters,
+      false,
+      options,
+      true,
+    );
 
     // 3. Return modification result
-    return {
-      changes: result.changes || result.changeCount || 0,
-      lastInsertRowid: result.lastInsertRowid || result.lastInsertRowId || null,
-    };
+    return toModificationResult(result, operation);
   };
 };
 
 /**
- * Creates a run function for DDL and utility operations.
+ * Creates an executeReturning function for modifications with a RETURNING clause.
  *
  * @param promiser - Worker promiser function for database communication
- * @returns Function to execute DDL and utility statements
+ * @returns Function to execute INSERT/UPDATE/DELETE ... RETURNING statements and return their rows
  */
-export const createRunFunction = (promiser: WorkerPromiseFunction) => {
-  return async (sql: string, parameters?: SqlParameters): Promise<void> => {
-    // 1. Validate operation type
-    const opType = analyzeSqlOperation(sql);
-    if (opType === "select") {
+export const createExecuteReturningFunction = (
+  promiser: WorkerPromiseFunction,
+) => {
+  return async <T>(
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
+  ): Promise<ReturningResult<T>> => {
+    // 1. Resolve sql`...` fragments and check for the RETURNING clause
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    const { operation, returning } = expectModificationStatement(sql);
+    if (!returning) {
       throw createWorkerError(
-        new Error("Use query() or queryOne() for SELECT statements"),
+        new Error(
+          "Expected a RETURNING clause; use execute() for modifications without one",
+        ),
         "SQL operation type mismatch",
       );
     }
 
-    // 2. Execute operation without result rows
-    await executeWorkerRequest(promiser, sql, parameters, false);
+    // 2. Execute modification, collecting the returned rows
+    const result = await executeWorkerRequest(
+      promiser,
+      sql,
+      parameters,
+      true,
+      options,
+      true,
+    );
 
-    // 3. Return void for DDL/utility operations
+    // 3. Return returned rows with the modification result
+    return {
+      ...toModificationResult(result, operation),
+      rows: Array.isArray(result.resultRows) ? (result.resultRows as T[]) : [],
+    };
   };
 };
 
 /**
- * Creates a transaction function for atomic multi-statement operations.
+ * Creates an executeMany function running one modification statement for many parameter sets.
  *
  * @param promiser - Worker promiser function for database communication
- * @returns Function to execute multiple statements atomically
+ * @returns Function to execute INSERT/UPDATE/DELETE statements in bulk
  */
-export const createTransactionFunction = (promiser: WorkerPromiseFunction) => {
+export const createExecuteManyFunction = (promiser: WorkerPromiseFunction) => {
   return async (
-    statements: TransactionStatement[],
-  ): Promise<Array<unknown>> => {
-    // 1. Input validation
-    if (!Array.isArray(statements) || statements.length === 0) {
+    input: SqlInput,
+    rows: ReadonlyArray<SqlParameters>,
+    options: ExecuteManyOptions = {},
+  ): Promise<BulkModificationResult> => {
+    // 1. Resolve sql`...` fragments; their values would clash with the rows' parameters
+    const { sql, parameters } = resolveSqlInput(input);
+    if (parameters !== undefined) {
       throw createWorkerError(
-        new Error("Transaction requires at least one statement"),
-        "Transaction validation",
+        new Error(
+          "A sql`...` fragment passed to executeMany() cannot bind values; pass them in rows",
+        ),
+        "Parameter validation",
       );
     }
 
-    // 2. Begin transaction
-    await executeWorkerRequest(promiser, "BEGIN TRANSACTION", undefined, false);
-
-    try {
-      const results: Array<unknown> = [];
-
-      // 3. Execute each statement
-      for (const stmt of statements) {
-        const { sql, parameters, type } = stmt;
-        const opType = type || detectOperationType(sql);
-
-        let result: unknown;
-
-        switch (opType) {
-          case "query":
-            const queryResult = await executeWorkerRequest(
-              promiser,
-              sql,
-              parameters,
-              true,
-            );
-            result = Array.isArray(queryResult.resultRows)
-              ? queryResult.resultRows
-              : [];
-            break;
-
-          case "execute":
-            const execResult = await executeWorkerRequest(
-              promiser,
-              sql,
-              parameters,
-              false,
-            );
-            result = {
-              changes: execResult.changes || execResult.changeCount || 0,
-              lastInsertRowid:
-                execResult.lastInsertRowid ||
-                execResult.lastInsertRowId ||
-                null,
-            };
-            break;
-
-          case "run":
-          default:
-            await executeWorkerRequest(promiser, sql, parameters, false);
-            result = undefined;
-            break;
-        }
-
-        results.push(result);
+    // 2. Input validation
+    validateSqlInput(sql);
+    const { operation: opType } = expectModificationStatement(sql);
+    if (!Array.isArray(rows)) {
+      throw createWorkerError(
+        new Error("Rows must be an array of parameter sets"),
+        "Parameter validation",
+      );
+    }
+    rows.forEach((parameters, index) => {
+      if (!validateParameterTypes(parameters)) {
+        throw createWorkerError(
+          new Error(`Invalid parameter types in row ${index}`),
+          "Parameter validation",
+        );
       }
+    });
 
-      // 4. Commit transaction
-      await executeWorkerRequest(promiser, "COMMIT", undefined, false);
+    // 3. Ship every parameter set in one message
+    try {
+      const result = await promiser(
+        "execute-many",
+        {
+          sql,
+          rows: rows.map((parameters) => bindParameters(parameters)),
+          transaction: options.transaction ?? true,
+        },
+        options,
+      );
 
-      return results;
+      // 4. Return aggregate changes and per-row insert IDs; rows that inserted nothing have none
+      const rowChanges: number[] = result.rowChanges;
+      const lastInsertRowIds: number[] = result.lastInsertRowIds;
+      return {
+        changes: result.changes,
+        lastInsertRowids: lastInsertRowIds.map((rowid, index) =>
+          opType === "insert" && rowChanges[index] > 0 ? rowid : null,
+        ),
+      };
     } catch (error) {
-      // 5. Rollback on error
-      try {
-        await executeWorkerRequest(promiser, "ROLLBACK", undefined, false);
-      } catch (rollbackError) {
-        // Log rollback error but throw original error
-        console.error("Failed to rollback transaction:", rollbackError);
-      }
-
-      throw createWorkerError(error, "Transaction execution");
+      throw createWorkerError(error, "SQL execution");
     }
   };
 };
 
 /**
- * Detects operation type from SQL statement for transaction handling.
+ * Creates a run function for DDL and utility operations.
  *
- * @param sql - SQL statement to analyze
- * @returns Operation type for transaction handling
+ * @param promiser - Worker promiser function for database communication
+ * @returns Function to execute DDL and utility statements
  */
-const detectOperationType = (sql: string): "query" | "execute" | "run" => {
-  const opType = analyzeSqlOperation(sql);
-
-  if (opType === "select") {
-    return "query";
-  }
+export const createRunFunction = (promiser: WorkerPromiseFunction) => {
+  return async (
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
+  ): Promise<void> => {
+    // 1. Resolve sql`...` fragments and validate operation type
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    const statements = classifySql(sql);
+    if (
+      statements.length > 0 &&
+      statements.every((statement) => statement.operation === "select")
+    ) {
+      throw createWorkerError(
+        new Error("Use query() or queryOne() for SELECT statements"),
+        "SQL operation type mismatch",
+      );
+    }
 
-  if (["insert", "update", "delete"].includes(opType)) {
-    return "execute";
-  }
+    // 2. Execute operation without result rows
+    await executeWorkerRequest(promiser, sql, parameters, false, options);
 
-  return "run";
+    // 3. Return void for DDL/utility operations
+  };
 };
@@ -0,0 +1,436 @@
+/**
+ * Query plan analysis for Web-SQLite.
+ * Explains statements as a tree, flags costly plan steps and proposes indexes that would avoid them.
+ */
+
+import type {
+  CallOptions,
+  DiagnosticsOptions,
+  QueryPlan,
+  QueryPlanIssue,
+  QueryPlanNode,
+  SqlInput,
+  SqlParameters,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { executeWorkerRequest, expectRowStatement } from "./exec.js";
+import { resolveSqlInput } from "./sql.js";
+
+/**
+ * Row of EXPLAIN QUERY PLAN output.
+ */
+interface PlanRow {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+/**
+ * Column compared in a WHERE or ON clause, or listed in ORDER BY / GROUP BY.
+ */
+interface ColumnReference {
+  qualifier: string | null;
+  column: string;
+  equality: boolean;
+}
+
+/**
+ * Statements the diagnostic mode remembers at most; later distinct statements are not explained.
+ */
+const MAX_DIAGNOSED_STATEMENTS = 1000;
+
+/**
+ * Words that follow a table name in FROM and JOIN clauses, and so are not aliases.
+ */
+const CLAUSE_KEYWORDS = new Set([
+  "select",
+  "from",
+  "where",
+  "join",
+  "inner",
+  "left",
+  "right",
+  "full",
+  "cross",
+  "natural",
+  "outer",
+  "on",
+  "using",
+  "group",
+  "order",
+  "limit",
+  "having",
+  "window",
+  "union",
+  "except",
+  "intersect",
+  "set",
+  "returning",
+  "indexed",
+  "not",
+]);
+
+/**
+ * Turns the flat EXPLAIN QUERY PLAN rows into a tree.
+ *
+ * @param rows - Plan rows in output order
+ * @returns Top-level plan nodes
+ */
+const buildPlanTree = (rows: ReadonlyArray<PlanRow>): QueryPlanNode[] => {
+  const nodes = new Map<number, QueryPlanNode>();
+  const roots: QueryPlanNode[] = [];
+  for (const row of rows) {
+    const node: QueryPlanNode = {
+      id: row.id,
+      parent: row.parent,
+      detail: row.detail,
+      children: [],
+    };
+    nodes.set(row.id, node);
+    (nodes.get(row.parent)?.children ?? roots).push(node);
+  }
+  return roots;
+};
+
+/**
+ * Visits every node of a plan tree, parents first.
+ *
+ * @param nodes - Plan nodes
+ * @returns Nodes in depth-first order
+ */
+const flattenPlan = (nodes: ReadonlyArray<QueryPlanNode>): QueryPlanNode[] =>
+  nodes.flatMap((node) => [node, ...flattenPlan(node.children)]);
+
+/**
+ * Removes string literals and comments, so their contents are not mistaken for SQL.
+ *
+ * @param sql - SQL text
+ * @returns SQL with empty literals and without comments
+ */
+const stripLiterals = (sql: string): string =>
+  sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/--[^\n]*/g, " ")
+    .replace(/\/\*[\s\S]*?\*\//g, " ");
+
+/**
+ * Unquotes an identifier written with double quotes, backticks or brackets.
+ *
+ * @param name - Identifier as written
+ * @returns Bare identifier
+ */
+const unquote = (name: string): string =>
+  name.replace(/^["`[](.*)["`\]]$/, "$1");
+
+/**
+ * Finds the tables of FROM and JOIN clauses and the aliases they are given.
+ *
+ * @param sql - SQL without literals
+ * @returns Table name by lowercase alias (tables without alias map to themselves)
+ */
+const parseTableAliases = (sql: string): Map<string, string> => {
+  const aliases = new Map<string, string>();
+  const name = String.raw`("[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[\w$]+)`;
+  const pattern = new RegExp(
+    String.raw`(?:\bFROM|\bJOIN|,)\s+(?:[\w$]+\.)?${name}(?:\s+(?:AS\s+)?${name})?`,
+    "gi",
+  );
+  for (const match of sql.matchAll(pattern)) {
+    const table = unquote(match[1]);
+    const alias = match[2] ? unquote(match[2]) : null;
+    aliases.set(table.toLowerCase(), table);
+    if (alias && !CLAUSE_KEYWORDS.has(alias.toLowerCase())) {
+      aliases.set(alias.toLowerCase(), table);
+    }
+  }
+  return aliases;
+};
+
+/**
+ * Finds the columns compared against something in the statement.
+ * Equality and IN comparisons can lead an index; range comparisons can only end it.
+ *
+ * @param sql - SQL without literals
+ * @returns Compared columns, in order of appearance
+ */
+const findFilterColumns = (sql: string): ColumnReference[] => {
+  const pattern =
+    /(?:\b([\w$]+)\.)?\b([A-Za-z_][\w$]*)\s*(==?|<=|>=|<(?!>)|>|\bIN\b|\bIS\b|\bBETWEEN\b|\bLIKE\b|\bGLOB\b)/gi;
+  return Array.from(sql.matchAll(pattern), (match) => ({
+    qualifier: match[1] ?? null,
+    column: match[2],
+    equality: /^(=|==|in|is)$/i.test(match[3]),
+  }));
+};
+
+/**
+ * Finds the plain columns listed in ORDER BY and GROUP BY clauses.
+ *
+ * @param sql - SQL without literals
+ * @returns Listed columns, in order of appearance
+ */
+const findOrderingColumns = (sql: string): ColumnReference[] => {
+  const clauses = sql.matchAll(
+    /\b(?:ORDER|GROUP)\s+BY\s+([\s\S]+?)(?=\bLIMIT\b|\bHAVING\b|\bORDER\b|\bWINDOW\b|\)|;|$)/gi,
+  );
+  return Array.from(clauses).flatMap((clause) =>
+    clause[1].split(",").flatMap((term) => {
+      const match = term
+        .trim()
+        .match(
+          /^(?:([\w$]+)\.)?([A-Za-z_][\w$]*)(?:\s+COLLATE\s+\w+)?(?:\s+(?:ASC|DESC))?(?:\s+NULLS\s+(?:FIRST|LAST))?$/i,
+        );
+      return match
+        ? [{ qualifier: match[1] ?? null, column: match[2], equality: false }]
+        : [];
+    }),
+  );
+};
+
+/**
+ * Keeps the references that belong to one table of the statement.
+ *
+ * @param references - Column references
+ * @param alias - Name the table goes by in the statement
+ * @param columns - Lowercase column names of the table
+ * @returns Distinct column names of the table
+ */
+const columnsOf = (
+  references: ReadonlyArray<ColumnReference>,
+  alias: string,
+  columns: ReadonlySet<string>,
+): string[] => {
+  const names = references
+    .filter(
+      (reference) =>
+        (reference.qualifier === null ||
+          reference.qualifier.toLowerCase() === alias.toLowerCase()) &&
+        columns.has(reference.column.toLowerCase()),
+    )
+    .map((reference) => reference.column);
+  return Array.from(new Set(names));
+};
+
+/**
+ * Quotes an identifier when it is not a plain word.
+ *
+ * @param name - Identifier
+ * @returns Identifier usable in SQL
+ */
+const quoteIdentifier = (name: string): string =>
+  /^[A-Za-z_][\w$]*$/.test(name) ? name : `"${name.replaceAll('"', '""')}"`;
+
+/**
+ * Builds a CREATE INDEX statement.
+ *
+ * @param table - Table name
+ * @param columns - Indexed columns, leading column first
+ * @returns CREATE INDEX statement
+ */
+const createIndexStatement = (
+  table: string,
+  columns: ReadonlyArray<string>,
+): string => {
+  const name = `idx_${[table, ...columns].join("_").replace(/\W+/g, "_")}`;
+  return `CREATE INDEX ${quoteIdentifier(name)} ON ${quoteIdentifier(table)} (${columns.map(quoteIdentifier).join(", ")})`;
+};
+
+/**
+ * Checks whether an index is made redundant by a longer one on the same table starting with its columns.
+ *
+ * @param index - Candidate index
+ * @param other - Another candidate index
+ * @returns true when other serves every lookup index serves
+ */
+const isIndexPrefix = (
+  index: { table: string; keys: ReadonlyArray<string> },
+  other: { table: string; keys: ReadonlyArray<string> },
+): boolean =>
+  other.table === index.table &&
+  other.keys.length > index.keys.length &&
+  index.keys.every((key, position) => other.keys[position] === key);
+
+/**
+ * Creates an explain function returning analyzed query plans.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @returns Function explaining a statement
+ */
+export const createExplainFunction = (promiser: WorkerPromiseFunction) => {
+  // Tables without columns are subqueries or virtual tables, which no index can help
+  const readColumns = async (
+    table: string,
+    options: CallOptions,
+  ): Promise<Set<string>> => {
+    const result = await executeWorkerRequest(
+      promiser,
+      "SELECT name FROM pragma_table_info(?)",
+      [table],
+      true,
+      options,
+    );
+    return new Set(
+      (result.resultRows as Array<{ name: string }>).map(({ name }) =>
+        name.toLowerCase(),
+      ),
+    );
+  };
+
+  return async (
+    input: SqlInput,
+    inputParameters?: SqlParameters,
+    options: CallOptions = {},
+  ): Promise<QueryPlan> => {
+    // 1. Ask SQLite for the plan of exactly one statement, so nothing after it can run
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    expectRowStatement(sql);
+    const result = await executeWorkerRequest(
+      promiser,
+      `EXPLAIN QUERY PLAN ${sql}`,
+      parameters,
+      true,
+      options,
+    );
+    const nodes = buildPlanTree(result.resultRows as PlanRow[]);
+
+    // 2. Collect what the statement filters and orders by
+    const stripped = stripLiterals(sql);
+    const aliases = parseTableAliases(stripped);
+    const filters = findFilterColumns(stripped);
+    const ordering = findOrderingColumns(stripped);
+    const issues: QueryPlanIssue[] = [];
+    const candidates: Array<{ table: string; keys: string[] }> = [];
+    const scannedTables: Array<{
+      table: string;
+      alias: string;
+      columns: Set<string>;
+    }> = [];
+
+    // 3. Flag costly steps, proposing an index for each full scan of a real table
+    for (const node of flattenPlan(nodes)) {
+      const scan = node.detail.match(/^SCAN (?:TABLE )?(\S+)(?: AS (\S+))?$/);
+      const tempTree = node.detail.match(/^USE TEMP B-TREE FOR (.+)$/);
+      if (scan) {
+        const alias = scan[2] ?? scan[1];
+        const table = aliases.get(alias.toLowerCase()) ?? scan[1];
+        const columns = await readColumns(table, options);
+        if (columns.size === 0) {
+          continue;
+        }
+        scannedTables.push({ table, alias, columns });
+        issues.push({
+          kind: "full-scan",
+          detail: node.detail,
+          table,
+          message: `Full scan of table ${table}${alias !== table ? ` (as ${alias})` : ""}`,
+        });
+        const equality = columnsOf(
+          filters.filter((filter) => filter.equality),
+          alias,
+          columns,
+        );
+        const range = columnsOf(
+          filters.filter((filter) => !filter.equality),
+          alias,
+          columns,
+        ).filter((column) => !equality.includes(column));
+        const keys = [...equality, ...range.slice(0, 1)];
+        if (keys.length > 0) {
+          candidates.push({ table, keys });
+        }
+      } else if (tempTree) {
+        issues.push({
+          kind: "temp-b-tree",
+          detail: node.detail,
+          message: `Temporary B-tree built for ${tempTree[1]}`,
+        });
+      } else if (/^CORRELATED (?:SCALAR|LIST) SUBQUERY/.test(node.detail)) {
+        issues.push({
+          kind: "correlated-subquery",
+          detail: node.detail,
+          message: "Correlated subquery runs again for every outer row",
+        });
+      }
+    }
+
+    // 4. A sort over a single scanned table can come straight from an index on the ordering columns
+    const isSorting = issues.some((issue) => issue.kind === "temp-b-tree");
+    if (isSorting && scannedTables.length === 1) {
+      const { table, alias, columns } = scannedTables[0];
+      const equality = columnsOf(
+        filters.filter((filter) => filter.equality),
+        alias,
+        columns,
+      );
+      const keys = Array.from(
+        new Set([...equality, ...columnsOf(ordering, alias, columns)]),
+      );
+      if (keys.length > equality.length) {
+        candidates.push({ table, keys });
+      }
+    }
+
+    // 5. Return the analyzed plan, leaving out indexes a longer suggestion covers
+    return {
+      sql,
+      nodes,
+      issues,
+      suggestedIndexes: Array.from(
+        new Set(
+          candidates
+            .filter(
+              (candidate) =>
+                !candidates.some((other) => isIndexPrefix(candidate, other)),
+            )
+            .map(({ table, keys }) => createIndexStatement(table, keys)),
+        ),
+      ),
+    };
+  };
+};
+
+/**
+ * Logs a plan's issues and suggested indexes as a console warning.
+ *
+ * @param plan - Analyzed plan with issues
+ */
+const reportToConsole = (plan: QueryPlan): void => {
+  const lines = [
+    `[web-sqlite] Query plan issues for: ${plan.sql}`,
+    ...plan.issues.map((issue) => `  - ${issue.message}`),
+    ...plan.suggestedIndexes.map((statement) => `  Consider: ${statement}`),
+  ];
+  console.warn(lines.join("\n"));
+};
+
+/**
+ * Creates the observer of the diagnostic mode, explaining each distinct statement once in the background.
+ *
+ * @param explain - Explain function of the database
+ * @param options - Where to report plans with issues
+ * @returns Function to call with every statement a query runs
+ */
+export const createQueryDiagnostics = (
+  explain: ReturnType<typeof createExplainFunction>,
+  options: DiagnosticsOptions = {},
+) => {
+  const { report = reportToConsole } = options;
+  const seen = new Set<string>();
+
+  return (sql: string, parameters?: SqlParameters): void => {
+    // 1. Explain each statement only once
+    if (seen.has(sql) || seen.size >= MAX_DIAGNOSED_STATEMENTS) {
+      return;
+    }
+    seen.add(sql);
+
+    // 2. Explain without holding up the query; diagnostics never fail the caller
+    explain(sql, parameters)
+      .then((plan) => {
+        if (plan.issues.length > 0) {
+          report(plan);
+        }
+      })
+      .catch(() => undefined);
+  };
+};
@@ -0,0 +1,216 @@
+/**
+ * User-defined SQL functions for Web-SQLite.
+ * Implementations run inside the worker: they are either serialized from source or imported from a module URL.
+ */
+
+import type {
+  AggregateDefinition,
+  FunctionOptions,
+  SqlFunctionImplementation,
+  SqlFunctionModule,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError, createWorkerError } from "./errors.js";
+
+/**
+ * Registration requests of a connection's functions, keyed by name and arity.
+ * Kept so a replacement worker can register them again.
+ */
+export type FunctionRegistry = Map<string, Record<string, unknown>>;
+
+/**
+ * Checks whether an implementation points at a module export.
+ *
+ * @param value - Implementation given by the caller
+ * @returns true for { module, export } references
+ */
+const isModuleReference = (value: unknown): value is SqlFunctionModule =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as SqlFunctionModule).module === "string";
+
+/**
+ * Serializes a self-contained function so the worker can compile it.
+ *
+ * @param fn - Function to serialize
+ * @param label - Name used in error messages
+ * @returns Function source
+ * @throws {WebSQLiteError} If the function has no usable source (native or bound functions)
+ */
+const serializeFunction = (fn: unknown, label: string): string => {
+  if (typeof fn !== "function") {
+    throw new WebSQLiteError(`${label} must be a function`);
+  }
+  const source = Function.prototype.toString.call(fn);
+  if (/\{\s*\[native code\]\s*\}$/.test(source)) {
+    throw new WebSQLiteError(
+      `${label} cannot be serialized (native or bound function); export it from a module instead`,
+    );
+  }
+  return source;
+};
+
+/**
+ * Describes a module export for the worker, resolving relative URLs against the page.
+ *
+ * @param reference - Module URL and export name
+ * @returns Absolute module URL and export name
+ */
+const describeModule = (reference: SqlFunctionModule) => ({
+  module: new URL(reference.module, globalThis.location?.href).href,
+  exportName: reference.export ?? "default",
+});
+
+/**
+ * Validates a function name and its options, and builds the shared part of the registration.
+ *
+ * @param name - SQL function name
+ * @param options - Arity and flags
+ * @returns Registration fields and the registry key
+ */
+const describeRegistration = (name: string, options: FunctionOptions) => {
+  // 1. Input validation
+  if (!name || typeof name !== "string") {
+    throw new WebSQLiteError("Function name must be a non-empty string");
+  }
+  const arity = options.arity ?? -1;
+  if (!Number.isInteger(arity) || arity < -1) {
+    throw new WebSQLiteError(
+      "Arity must be an integer of at least 0, or -1 for any number of arguments",
+    );
+  }
+
+  // 2. Return the fields every registration carries
+  return {
+    key: `${name.toLowerCase()}/${arity}`,
+    fields: {
+      name,
+      arity,
+      deterministic: options.deterministic ?? false,
+      directOnly: options.directOnly ?? false,
+    },
+  };
+};
+
+/**
+ * Sends a registration to the worker and remembers it for worker replacement.
+ *
+ * @param promiser - Worker promiser function
+ * @param registry - Registry of the connection's functions
+ * @param key - Registry key (name and arity)
+ * @param registration - Registration request
+ * @param options - Optional timeout and abort signal
+ * @returns Promise resolving when the function is registered
+ */
+const register = async (
+  promiser: WorkerPromiseFunction,
+  registry: FunctionRegistry,
+  key: string,
+  registration: Record<string, unknown>,
+  options: FunctionOptions,
+): Promise<void> => {
+  try {
+    await promiser("create-function", registration, options);
+  } catch (error) {
+    throw createWorkerError(error, "Function registration");
+  }
+  registry.set(key, registration);
+};
+
+/**
+ * Registers the functions of a connection again on a replacement worker.
+ *
+ * @param promiser - Worker promiser routed to the database
+ * @param registry - Registry of the connection's functions
+ * @returns Promise resolving once every function is registered
+ */
+export const restoreFunctions = async (
+  promiser: WorkerPromiseFunction,
+  registry: FunctionRegistry,
+): Promise<void> => {
+  for (const registration of registry.values()) {
+    await promiser("create-function", registration);
+  }
+};
+
+/**
+ * Creates a function registering scalar SQL functions.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param registry - Registry of the connection's functions
+ * @returns Function registering a scalar function
+ */
+export const createFunctionRegistrar = (
+  promiser: WorkerPromiseFunction,
+  registry: FunctionRegistry,
+) => {
+  return async (
+    name: string,
+    implementation: SqlFunctionImplementation,
+    options: FunctionOptions = {},
+  ): Promise<void> => {
+    // 1. Validate and serialize the implementation
+    const { key, fields } = describeRegistration(name, options);
+    const described = isModuleReference(implementation)
+      ? describeModule(implementation)
+      : { source: serializeFunction(implementation, `${name}()`) };
+
+    // 2. Register it in the worker
+    await register(
+      promiser,
+      registry,
+      key,
+      { ...fields, kind: "scalar", implementation: described },
+      options,
+    );
+  };
+};
+
+/**
+ * Creates a function registering aggregate SQL functions.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param registry - Registry of the connection's functions
+ * @returns Function registering an aggregate function
+ */
+export const createAggregateRegistrar = (
+  promiser: WorkerPromiseFunction,
+  registry: FunctionRegistry,
+) => {
+  return async <S>(
+    name: string,
+    definition: AggregateDefinition<S> | SqlFunctionModule,
+    options: FunctionOptions = {},
+  ): Promise<void> => {
+    // 1. Validate and serialize each part of the definition
+    const { key, fields } = describeRegistration(name, options);
+    let described: Record<string, unknown>;
+    if (isModuleReference(definition)) {
+      described = describeModule(definition);
+    } else {
+      if (typeof definition?.step !== "function") {
+        throw new WebSQLiteError(`Aggregate ${name}() needs a step function`);
+      }
+      const parts = (["start", "step", "final"] as const).filter(
+        (part) => definition[part] !== undefined,
+      );
+      described = {
+        sources: Object.fromEntries(
+          parts.map((part) => [
+            part,
+            serializeFunction(definition[part], `${name}() ${part}`),
+          ]),
+        ),
+      };
+    }
+
+    // 2. Register it in the worker
+    await register(
+      promiser,
+      registry,
+      key,
+      { ...fields, kind: "aggregate", implementation: described },
+      options,
+    );
+  };
+};
@@ -0,0 +1,201 @@
+/**
+ * Worker hosting for Web-SQLite.
+ * Owns one worker shared by any number of databases, tracks its health and replaces it after a crash.
+ */
+
+import type {
+  DatabaseState,
+  StateChangeListener,
+  WorkerPromiseFunction,
+} from "./types.js";
+import type { WorkerCrashedError } from "./errors.js";
+import { createWorkerEventHub, type WorkerEventHub } from "./events.js";
+import {
+  createSQLiteWorker,
+  shutdownWorker,
+  type WorkerSettings,
+} from "./worker.js";
+
+/**
+ * Settings for starting a worker host.
+ */
+export interface WorkerHostSettings extends WorkerSettings {
+  /** Start a new worker and reopen every hosted database after a crash */
+  reconnect?: boolean;
+}
+
+/**
+ * Database living on a host, reopened when the worker is replaced.
+ */
+export interface HostedDatabase {
+  /**
+   * Reopens the database, and whatever it depends on, on a freshly started worker.
+   *
+   * @param promiser - Promiser of the replacement worker
+   * @returns Promise resolving once the database is usable again
+   */
+  reopen(promiser: WorkerPromiseFunction): Promise<void>;
+}
+
+/**
+ * Worker shared by the databases opened on it.
+ */
+export interface WorkerHost {
+  /** Promiser targeting the current worker; calls made while reconnecting wait for it */
+  promiser: WorkerPromiseFunction;
+
+  /** Event hub receiving the worker's unsolicited messages */
+  events: WorkerEventHub;
+
+  /** Current health of the worker */
+  readonly state: DatabaseState;
+
+  /** Whether bound values are masked in errors and query hooks */
+  readonly redactParameters: boolean;
+
+  /** Number of workers that have crashed so far; work tied to one worker compares it to tell whether that worker is gone */
+  readonly generation: number;
+
+  /**
+   * Waits for a reconnection in progress to settle.
+   *
+   * @returns Promise resolving once no reconnection is running
+   */
+  whenReady(): Promise<void>;
+
+  /**
+   * Registers a listener for state changes.
+   *
+   * @param listener - Listener to call on each change
+   * @returns Function removing the listener
+   */
+  onStateChange(listener: StateChangeListener): () => void;
+
+  /**
+   * Registers a database to reopen when the worker is replaced.
+   *
+   * @param database - Hosted database
+   * @returns Function removing the database
+   */
+  register(database: HostedDatabase): () => void;
+
+  /**
+   * Releases the worker's resources and terminates it. Calling it more than once returns the same promise.
+   *
+   * @returns Promise resolving once the worker is gone
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a worker that databases can be opened on.
+ *
+ * @param settings - Worker settings and reconnection flag
+ * @returns Promise resolving to the host
+ */
+export const createWorkerHost = async (
+  settings: WorkerHostSettings = {},
+): Promise<WorkerHost> => {
+  const events = createWorkerEventHub();
+  const listeners = new Set<StateChangeListener>();
+  const databases = new Set<HostedDatabase>();
+  let state: DatabaseState = "open";
+  let generation = 0;
+  let reconnecting: Promise<void> = Promise.resolve();
+  let closing: Promise<void> | null = null;
+
+  const setState = (next: DatabaseState, error?: Error): void => {
+    state = next;
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(next, error);
+      } catch (listenerError) {
+        console.error("Database state listener failed:", listenerError);
+      }
+    }
+  };
+
+  // 1. Replace a crashed worker when asked to, reopening every database it hosted
+  const handleCrash = (error: WorkerCrashedError): void => {
+    // A crash during close() is not worth reporting or recovering from
+    if (closing) {
+      return;
+    }
+    generation++;
+    setState("crashed", error);
+    if (!settings.reconnect) {
+      return;
+    }
+
+    setState("reconnecting");
+    reconnecting = createSQLiteWorker(events.emit, workerSettings)
+      .then(async (replacement) => {
+        try {
+          for (const database of Array.from(databases)) {
+            await database.reopen(replacement.promiser);
+          }
+        } catch (reopenError) {
+          replacement.terminate();
+          throw reopenError;
+        }
+        current = replacement;
+        setState("open");
+      })
+      .catch((reconnectError) => {
+        // The crashed worker stays in place and keeps failing calls
+        setState("crashed", reconnectError);
+      });
+  };
+
+  // 2. Start the first worker
+  const workerSettings: WorkerSettings = { ...settings, onCrash: handleCrash };
+  let current = await createSQLiteWorker(events.emit, workerSettings);
+
+  // 3. Return the host
+  return {
+    promiser: async (type, args, options) => {
+      await reconnecting;
+      return current.promiser(type, args, options);
+    },
+
+    events,
+
+    get state() {
+      return state;
+    },
+
+    get generation() {
+      return generation;
+    },
+
+    redactParameters: settings.redactErrorParameters ?? false,
+
+    whenReady: () => reconnecting,
+
+    onStateChange: (listener: StateChangeListener): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    register: (database: HostedDatabase): (() => void) => {
+      databases.add(database);
+      return () => {
+        databases.delete(database);
+      };
+    },
+
+    close: (): Promise<void> => {
+      closing ??= (async () => {
+        // 1. Let a reconnection in progress settle so its worker is stopped too
+        await reconnecting;
+
+        // 2. Stop the worker
+        await shutdownWorker(current);
+        setState("closed");
+      })();
+      return closing;
+    },
+  };
+};
@@ -8,56 +8,336 @@ export type {
   Database,
   SqlValue,
   SqlParameters,
+  SqlFragment,
+  SqlInput,
+  SqlStoredValue,
+  ValueCodec,
+  CodecOptions,
   ModificationResult,
+  ReturningResult,
+  ExecScriptOptions,
+  ScriptResult,
+  ScriptStatementResult,
+  ScriptLocation,
+  BulkModificationResult,
+  ExecuteManyOptions,
   TransactionStatement,
-  WebSQLiteError,
+  PreparedStatement,
+  IterateOptions,
+  QueryRowMode,
+  QueryWithMetaOptions,
+  ColumnMetadata,
+  QueryResultWithMeta,
+  Transaction,
+  TransactionCallback,
+  TransactionMode,
+  TransactionOptions,
+  Migration,
+  MigrationResult,
+  WatchCallback,
+  WatchOptions,
+  WebSQLiteOptions,
+  ConnectionManager,
+  ConnectionManagerOptions,
+  ManagedDatabaseOptions,
+  AttachOptions,
+  SqlFunction,
+  SqlFunctionModule,
+  SqlFunctionImplementation,
+  AggregateDefinition,
+  FunctionOptions,
+  SqlOperationType,
+  SqlStatementInfo,
+  QueryEvent,
+  QueryEndEvent,
+  QueryHooks,
+  ConsoleTracerOptions,
+  PerformanceTracerOptions,
+  QueryPlan,
+  QueryPlanNode,
+  QueryPlanIssue,
+  DiagnosticsOptions,
+  PluginCommands,
+  PluginCommandArgs,
+  PluginCommandResult,
+  PluginCommandsOf,
+  WorkerPlugin,
+  WorkerPluginContext,
+  ImportOptions,
+  RestoreOptions,
+  BackupOptions,
+  BackupProgress,
+  BackupResult,
+  StorageBackend,
+  PersistentStorageBackend,
+  StorageOption,
+  CallOptions,
+  WebSQLiteErrorKind,
+  WebSQLiteErrorDetails,
+  DatabaseState,
+  DatabaseEventMap,
+  StateChangeListener,
 } from "./types.js";
+export {
+  WebSQLiteError,
+  WebSQLiteAbortError,
+  ConstraintError,
+  BusyError,
+  StorageFullError,
+  WorkerCrashedError,
+  DatabaseClosedError,
+} from "./errors.js";
+export { sql } from "./sql.js";
+export { codecs } from "./codecs.js";
+export { classifySql } from "./classifier.js";
+export {
+  createConsoleTracer,
+  createPerformanceTracer,
+  combineQueryHooks,
+} from "./tracing.js";
+export type { SqlTemplateValue } from "./sql.js";
 
-import type { Database, WorkerPromiseFunction } from "./types.js";
-import { validateBrowserSupport, WebSQLiteError } from "./errors.js";
-import { createSQLiteWorker, openDatabase, closeDatabase } from "./worker.js";
+import type {
+  CallOptions,
+  ConnectionManager,
+  ConnectionManagerOptions,
+  Database,
+  ImportOptions,
+  ManagedDatabaseOptions,
+  RestoreOptions,
+  WebSQLiteOptions,
+} from "./types.js";
+import {
+  validateBrowserSupport,
+  WebSQLiteError,
+  DatabaseClosedError,
+} from "./errors.js";
+import {
+  DEFAULT_TIMEOUT,
+  exportDatabase,
+  importDatabaseFile,
+  restoreDatabaseFile,
+} from "./worker.js";
 import {
   createQueryFunction,
   createQueryOneFunction,
+  createQueryWithMetaFunction,
   createExecuteFunction,
+  createExecuteReturningFunction,
+  createExecuteManyFunction,
   createRunFunction,
-  createTransactionFunction,
 } from "./exec.js";
+import { createTransactionFunction } from "./transaction.js";
+import { createExecFunction } from "./script.js";
+import { createPrepareFunction, finalizeAllStatements } from "./statement.js";
+import { createIterateFunction } from "./cursor.js";
+import { createConnectionScheduler } from "./scheduler.js";
+import { createMigrateFunction } from "./migrations.js";
+import { createWatchFunction } from "./watch.js";
+import {
+  openConnection,
+  subscribeLifecycleEvent,
+  type Connection,
+} from "./connection.js";
+import {
+  createWorkerHost,
+  type WorkerHost,
+  type WorkerHostSettings,
+} from "./host.js";
+import { createAttachFunction, createDetachFunction } from "./attach.js";
+import { createBackupFunction } from "./backup.js";
+import {
+  createAggregateRegistrar,
+  createFunctionRegistrar,
+} from "./functions.js";
+import { createCallFunction, resolvePluginUrls } from "./plugins.js";
+import { createExplainFunction, createQueryDiagnostics } from "./explain.js";
+
+/**
+ * Key of the `await using` disposer. Runtimes without explicit resource management lack Symbol.asyncDispose;
+ * there the disposer sits under the registered symbol of the same name, so it is always defined.
+ */
+const asyncDispose: typeof Symbol.asyncDispose =
+  Symbol.asyncDispose ??
+  (Symbol.for("Symbol.asyncDispose") as typeof Symbol.asyncDispose);
 
 /**
  * Creates a database interface with separate methods for different operations.
  *
- * @param promiser - Worker promiser function
+ * @param connection - Connection to the database worker
+ * @param diagnostics - Diagnostic mode settings
  * @returns Database interface with type-safe methods
  */
 const createDatabaseInterface = (
-  promiser: WorkerPromiseFunction,
-): Database => ({
-  // Query operations - return typed data
-  query: createQueryFunction(promiser),
-  queryOne: createQueryOneFunction(promiser),
-
-  // Data modification operations - return metadata
-  execute: createExecuteFunction(promiser),
-
-  // DDL and utility operations - return void
-  run: createRunFunction(promiser),
-
-  // Transaction operations - atomic execution
-  transaction: createTransactionFunction(promiser),
-
-  // Resource cleanup
-  close: async (): Promise<void> => {
-    // 1. Close database connection
-    await closeDatabase(promiser);
-  },
-});
+  connection: Connection,
+  diagnostics: WebSQLiteOptions["diagnostics"] = false,
+): Database => {
+  // Every operation goes through the queue so transactions stay isolated
+  const scheduler = createConnectionScheduler(
+    connection.promiser,
+    () => connection.generation,
+  );
+  const queuedPromiser = scheduler.promiser;
+  const transaction = createTransactionFunction(scheduler);
+  const explain = createExplainFunction(queuedPromiser);
+  const observe = diagnostics
+    ? createQueryDiagnostics(explain, diagnostics === true ? {} : diagnostics)
+    : undefined;
+
+  // Closing is started once; later calls share its outcome
+  let closing: Promise<void> | null = null;
+  const close = (): Promise<void> => {
+    closing ??= (async () => {
+      // 1. Finalize statements that are still open; closing the worker releases them anyway
+      const finalizing = finalizeAllStatements(connection.statements).catch(
+        () => undefined,
+      );
+
+      // 2. Refuse new calls, then close and terminate once the queued ones have run
+      await Promise.all([finalizing, scheduler.close(connection.close)]);
+    })();
+    return closing;
+  };
+
+  return {
+    storage: connection.storage,
+
+    // Connection health
+    get state() {
+      return connection.state;
+    },
+    onStateChange: connection.onStateChange,
+    on: (event, listener) =>
+      subscribeLifecycleEvent(connection, event, listener),
+
+    // Query operations - return typed data
+    query: createQueryFunction(queuedPromiser, observe),
+    queryOne: createQueryOneFunction(queuedPromiser, observe),
+    queryWithMeta: createQueryWithMetaFunction(queuedPromiser),
+    iterate: createIterateFunction(queuedPromiser),
+    watch: createWatchFunction(queuedPromiser, connection.events),
+
+    // Data modification operations - return metadata
+    execute: createExecuteFunction(queuedPromiser),
+    executeReturning: createExecuteReturningFunction(queuedPromiser),
+    executeMany: createExecuteManyFunction(queuedPromiser),
+
+    // DDL and utility operations - return void
+    run: createRunFunction(queuedPromiser),
+
+    // Multi-statement scripts - one report per statement
+    exec: createExecFunction(queuedPromiser, transaction),
+
+    // Transaction operations - atomic execution
+    transaction,
+
+    // Schema migrations - versioned upgrades in one transaction
+    migrate: createMigrateFunction(transaction),
+
+    // Prepared statements - compiled once, kept in the worker
+    prepare: createPrepareFunction(queuedPromiser, connection.statements),
+
+    // Snapshot of the whole database file
+    export: (options?: CallOptions) => exportDatabase(queuedPromiser, options),
+    backup: createBackupFunction(queuedPromiser, connection.storage),
+
+    // Other database files, reachable under an alias
+    attach: createAttachFunction(
+      queuedPromiser,
+      connection.attachments,
+      connection.storage,
+    ),
+    detach: createDetachFunction(queuedPromiser, connection.attachments),
+    createFunction: createFunctionRegistrar(
+      queuedPromiser,
+      connection.functions,
+    ),
+    createAggregate: createAggregateRegistrar(
+      queuedPromiser,
+      connection.functions,
+    ),
+    call: createCallFunction(queuedPromiser),
+    explain,
+
+    // Resource cleanup
+    close,
+
+    [asyncDispose]: close,
+  };
+};
+
+/**
+ * Validates connection-wide settings and turns them into worker host settings.
+ *
+ * @param options - Settings given to webSqlite() or createConnectionManager()
+ * @returns Settings for createWorkerHost()
+ * @throws {WebSQLiteError} If the timeout or the plugin list is invalid
+ */
+const resolveHostSettings = (
+  options: ConnectionManagerOptions,
+): WorkerHostSettings => {
+  const { timeout = DEFAULT_TIMEOUT } = options;
+  if (typeof timeout !== "number" || !(timeout >= 0)) {
+    throw new WebSQLiteError("Timeout must be a non-negative number");
+  }
+  return {
+    timeout,
+    redactErrorParameters: options.redactErrorParameters,
+    reconnect: options.reconnect,
+    plugins: resolvePluginUrls(options.plugins ?? []),
+  };
+};
+
+/**
+ * Opens a database on a worker host and brings its schema up to date.
+ *
+ * @param host - Worker host to open the database on
+ * @param filename - Database filename
+ * @param options - Storage backend and migrations
+ * @param ownsHost - Whether closing the database also stops the host's worker
+ * @returns Promise resolving to the database interface
+ */
+const openHostedDatabase = async (
+  host: WorkerHost,
+  filename: string,
+  options: ManagedDatabaseOptions,
+  ownsHost: boolean,
+): Promise<Database> => {
+  // 1. Open the database on the requested (or best available) storage
+  const connection = await openConnection(
+    host,
+    filename,
+    options.storage ?? "opfs",
+    {
+      migrations: options.migrations,
+      codecs: options.codecs,
+      hooks: { onQuery: options.onQuery, onQueryEnd: options.onQueryEnd },
+      ownsHost,
+    },
+  );
+
+  // 2. Create database interface with type-safe methods
+  const db = createDatabaseInterface(connection, options.diagnostics);
+
+  // 3. Bring the schema up to date, closing again if that fails
+  if (options.migrations) {
+    try {
+      await db.migrate(options.migrations);
+    } catch (error) {
+      await db.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  return db;
+};
 
 /**
  * Opens a SQLite database with OPFS persistence using Web Workers.
  * This is the main entry point for the Web-SQLite library.
  *
  * @param filename - Name of the SQLite database file in OPFS
+ * @param options - Optional settings: storage backend, migrations to apply on open, default timeout, error redaction and crash recovery
  * @returns Promise resolving to Database interface with type-safe methods
  * @throws {WebSQLiteError} If browser doesn't support required features
  *
@@ -89,24 +369,31 @@ const createDatabaseInterface = (
  * await db.close();
  * ```
  */
-const webSqlite = async (filename: string): Promise<Database> => {
+const webSqlite = async (
+  filename: string,
+  options: WebSQLiteOptions = {},
+): Promise<Database> => {
   // 1. Validate browser support
-  validateBrowserSupport();
+  const storage = options.storage ?? "opfs";
+  validateBrowserSupport(storage);
 
-  // 2. Validate filename
+  // 2. Validate filename and default timeout
   if (!filename || typeof filename !== "string") {
     throw new WebSQLiteError("Filename must be a non-empty string");
   }
+  const settings = resolveHostSettings(options);
 
   try {
-    // 3. Create and initialize worker
-    const promiser = await createSQLiteWorker();
+    // 3. Start a worker dedicated to this database
+    const host = await createWorkerHost(settings);
 
-    // 4. Open database with OPFS persistence
-    await openDatabase(promiser, filename);
-
-    // 5. Return database interface with type-safe methods
-    return createDatabaseInterface(promiser);
+    // 4. Open the database and apply migrations, stopping the worker if that fails
+    try {
+      return await openHostedDatabase(host, filename, options, true);
+    } catch (error) {
+      await host.close();
+      throw error;
+    }
   } catch (error) {
     if (error instanceof WebSQLiteError) {
       throw error;
@@ -115,4 +402,171 @@ const webSqlite = async (filename: string): Promise<Database> => {
   }
 };
 
-export default webSqlite;
+/**
+ * Writes a SQLite database image into OPFS so it can be opened with webSqlite().
+ * Use it to restore a user's backup or to install a prebuilt database on first run.
+ *
+ * @param filename - Name of the SQLite database file in OPFS
+ * @param bytes - SQLite database image, e.g. from Database.export() or a fetched file
+ * @param options - Whether an existing file may be replaced, and the OPFS backend it is for
+ * @returns Promise resolving when the file has been written
+ * @throws {WebSQLiteError} If the bytes are not a SQLite database or the file exists without overwrite
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/reference.sqlite3');
+ * const bytes = new Uint8Array(await response.arrayBuffer());
+ * await webSqlite.import('reference.sqlite3', bytes, { overwrite: true });
+ * const db = await webSqlite('reference.sqlite3');
+ * ```
+ */
+const importDatabase = async (
+  filename: string,
+  bytes: Uint8Array | ArrayBuffer,
+  options: ImportOptions = {},
+): Promise<void> => {
+  // 1. Validate browser support and input
+  const storage = options.storage ?? "opfs";
+  validateBrowserSupport(storage);
+  if (!filename || typeof filename !== "string") {
+    throw new WebSQLiteError("Filename must be a non-empty string");
+  }
+  if (!(bytes instanceof Uint8Array) && !(bytes instanceof ArrayBuffer)) {
+    throw new WebSQLiteError(
+      "Database image must be a Uint8Array or ArrayBuffer",
+    );
+  }
+
+  // 2. Write the image into OPFS
+  const image = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  await importDatabaseFile(
+    filename,
+    image,
+    options.overwrite ?? false,
+    storage,
+  );
+};
+
+/**
+ * Puts a database file back from a copy, e.g. one written by Database.backup().
+ * The target must not be open while it is replaced; open it with webSqlite() afterwards.
+ *
+ * @param from - Name of the copy in OPFS
+ * @param to - Name of the database file to replace
+ * @param options - OPFS backend of both files
+ * @returns Promise resolving when the file has been replaced
+ * @throws {WebSQLiteError} If the copy does not exist or is not a SQLite database
+ *
+ * @example
+ * ```typescript
+ * await db.backup('app-backup.sqlite3');
+ * await db.close();
+ * await webSqlite.restore('app-backup.sqlite3', 'app.sqlite3');
+ * ```
+ */
+const restoreDatabase = async (
+  from: string,
+  to: string,
+  options: RestoreOptions = {},
+): Promise<void> => {
+  // 1. Validate browser support and input
+  const storage = options.storage ?? "opfs";
+  validateBrowserSupport(storage);
+  for (const filename of [from, to]) {
+    if (!filename || typeof filename !== "string") {
+      throw new WebSQLiteError("Filename must be a non-empty string");
+    }
+  }
+  if (from === to) {
+    throw new WebSQLiteError("Cannot restore a database file onto itself");
+  }
+
+  // 2. Copy the file
+  await restoreDatabaseFile(from, to, storage);
+};
+
+/**
+ * Starts one worker that several databases can be opened on.
+ * Each webSqlite() call starts its own worker with its own WebAssembly instance; a manager shares one.
+ *
+ * @param options - Settings applied to every database: default timeout, error redaction and crash recovery
+ * @returns Promise resolving to the connection manager
+ * @throws {WebSQLiteError} If browser doesn't support required features
+ *
+ * @example
+ * ```typescript
+ * import { createConnectionManager } from 'web-sqlite';
+ *
+ * const manager = await createConnectionManager({ reconnect: true });
+ * const userDb = await manager.open(`user-${userId}.sqlite3`);
+ * const referenceDb = await manager.open('reference.sqlite3');
+ *
+ * // Close both databases and the worker
+ * await manager.close();
+ * ```
+ */
+export const createConnectionManager = async (
+  options: ConnectionManagerOptions = {},
+): Promise<ConnectionManager> => {
+  // 1. Validate browser support and settings
+  validateBrowserSupport("memory");
+  const settings = resolveHostSettings(options);
+
+  // 2. Start the shared worker
+  let host: WorkerHost;
+  try {
+    host = await createWorkerHost(settings);
+  } catch (error) {
+    if (error instanceof WebSQLiteError) {
+      throw error;
+    }
+    throw new WebSQLiteError("Failed to start worker", error as Error);
+  }
+
+  // 3. Track open databases so closing the manager closes them first
+  const databases = new Set<Database>();
+  let closing: Promise<void> | null = null;
+  const close = (): Promise<void> => {
+    closing ??= (async () => {
+      await Promise.allSettled(Array.from(databases, (db) => db.close()));
+      await host.close();
+    })();
+    return closing;
+  };
+
+  // 4. Return the manager
+  return {
+    open: async (
+      filename: string,
+      openOptions: ManagedDatabaseOptions = {},
+    ): Promise<Database> => {
+      // 4.1 Input validation
+      if (closing) {
+        throw new DatabaseClosedError("Connection manager is closed");
+      }
+      validateBrowserSupport(openOptions.storage ?? "opfs");
+      if (!filename || typeof filename !== "string") {
+        throw new WebSQLiteError("Filename must be a non-empty string");
+      }
+
+      // 4.2 Open the database on the shared worker
+      const db = await openHostedDatabase(host, filename, openOptions, false);
+      databases.add(db);
+      db.on("close", () => databases.delete(db));
+      return db;
+    },
+
+    get databases() {
+      return Array.from(databases);
+    },
+
+    close,
+
+    [asyncDispose]: close,
+  };
+};
+
+export default Object.assign(webSqlite, {
+  import: importDatabase,
+  restore: restoreDatabase,
+});
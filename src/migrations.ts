@@ -0,0 +1,115 @@
+/**
+ * Schema migration support for Web-SQLite.
+ * The applied schema version is tracked in PRAGMA user_version.
+ */
+
+import type {
+  CallOptions,
+  Database,
+  Migration,
+  MigrationResult,
+  Transaction,
+} from "./types.js";
+import { createWorkerError, WebSQLiteError } from "./errors.js";
+
+/**
+ * Validates that migrations carry positive integer versions in strictly ascending order.
+ *
+ * @param migrations - Migrations to validate
+ * @throws {WebSQLiteError} If the list is malformed
+ */
+const validateMigrations = (migrations: ReadonlyArray<Migration>): void => {
+  // 1. List validation
+  if (!Array.isArray(migrations)) {
+    throw new WebSQLiteError("Migrations must be an array");
+  }
+
+  // 2. Version and body validation
+  let previousVersion = 0;
+  for (const migration of migrations) {
+    const { version, up } = migration;
+    if (!Number.isInteger(version) || version <= previousVersion) {
+      throw new WebSQLiteError(
+        `Migration versions must be positive integers in ascending order, got ${version} after ${previousVersion}`,
+      );
+    }
+    if (typeof up !== "string" && typeof up !== "function") {
+      throw new WebSQLiteError(
+        `Migration ${version} must provide SQL or a function`,
+      );
+    }
+    previousVersion = version;
+  }
+};
+
+/**
+ * Applies one migration step and records its version.
+ *
+ * @param tx - Transaction the migrations run in
+ * @param migration - Migration to apply
+ */
+const applyMigration = async (
+  tx: Transaction,
+  migration: Migration,
+): Promise<void> => {
+  try {
+    // 1. Run the migration body
+    if (typeof migration.up === "string") {
+      await tx.run(migration.up);
+    } else {
+      await migration.up(tx);
+    }
+
+    // 2. Record the new version (validated integer, safe to inline)
+    await tx.run(`PRAGMA user_version = ${migration.version}`);
+  } catch (error) {
+    throw createWorkerError(error, `Migration ${migration.version}`);
+  }
+};
+
+/**
+ * Creates a migrate function that brings the schema up to the latest migration.
+ * All pending steps run in one immediate transaction, so a failure leaves the schema untouched.
+ *
+ * @param transaction - Transaction function of the connection
+ * @returns Function to apply pending migrations and report what ran
+ */
+export const createMigrateFunction = (transaction: Database["transaction"]) => {
+  return async (
+    migrations: ReadonlyArray<Migration>,
+    options: CallOptions = {},
+  ): Promise<MigrationResult> => {
+    // 1. Input validation
+    validateMigrations(migrations);
+    const latestVersion = migrations.at(-1)?.version ?? 0;
+
+    return transaction(
+      async (tx) => {
+        // 2. Read the applied version and refuse databases newer than the code
+        const row = await tx.queryOne<{ user_version: number }>(
+          "SELECT user_version FROM pragma_user_version",
+        );
+        const fromVersion = row?.user_version ?? 0;
+        if (fromVersion > latestVersion) {
+          throw new WebSQLiteError(
+            `Database schema version ${fromVersion} is newer than the latest known migration ${latestVersion}`,
+          );
+        }
+
+        // 2.1 Apply pending migrations in order
+        const pending = migrations.filter((m) => m.version > fromVersion);
+        for (const migration of pending) {
+          await applyMigration(tx, migration);
+        }
+
+        // 3. Report what ran
+        return {
+          fromVersion,
+          toVersion: Math.max(fromVersion, latestVersion),
+          applied: pending.map(({ version, name }) => ({ version, name })),
+        };
+      },
+      { ...options, mode: "immediate" },
+    );
+  };
+};
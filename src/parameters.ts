@@ -27,8 +27,26 @@ export const bindParameters = (parameters?: SqlParameters): any => {
   return parameters;
 };
 
+/**
+ * Checks whether a value is a plain object or an array, i.e. something JSON describes faithfully.
+ *
+ * @param value - Value to check
+ * @returns true for arrays and objects created by literals or Object.create(null)
+ */
+export const isJsonValue = (value: unknown): value is object => {
+  if (Array.isArray(value)) {
+    return true;
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
 /**
  * Processes parameter values to ensure they're compatible with SQLite.
+ * Runs after the configured codecs, for values none of them encoded.
  *
  * @param value - The parameter value to process
  * @returns Processed value compatible with SQLite
@@ -44,10 +62,39 @@ export const processParameterValue = (value: any): any => {
     return new Uint8Array(value);
   }
 
-  // 3. Handle other types as-is
+  // 3. Handle plain objects and arrays as JSON text
+  if (isJsonValue(value)) {
+    return JSON.stringify(value);
+  }
+
+  // 4. Handle other types as-is
   return value;
 };
 
+/**
+ * Checks whether a value can be bound: a primitive, null, a plain object or array, a Date or binary data.
+ *
+ * @param value - Bound value, after the codecs' encoders ran
+ * @returns true if the worker knows how to bind the value
+ */
+export const isSupportedValue = (value: unknown): boolean => {
+  // 1. Handle primitives and null
+  if (value === null) {
+    return true;
+  }
+  if (typeof value !== "object") {
+    return ["string", "number", "bigint", "boolean"].includes(typeof value);
+  }
+
+  // 2. Handle objects; Maps, Sets and class instances have no storable form
+  return (
+    value instanceof Date ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    isJsonValue(value)
+  );
+};
+
 /**
  * Validates that all parameter values are of supported types.
  *
@@ -55,27 +102,42 @@ export const processParameterValue = (value: any): any => {
  * @returns true if all parameters are valid
  */
 export const validateParameterTypes = (parameters: SqlParameters): boolean => {
-  const supportedTypes = ["string", "number", "bigint", "boolean"];
+  // Objects are left to the codecs, which encode them or report what they cannot
+  const supportedTypes = ["string", "number", "bigint", "boolean", "object"];
+
+  // 1. Handle array parameters
+  if (Array.isArray(parameters)) {
+    return parameters.every((value) => supportedTypes.includes(typeof value));
+  }
 
+  // 2. Handle object parameters, which must be plain objects themselves
+  return (
+    isJsonValue(parameters) &&
+    Object.values(parameters).every((value) =>
+      supportedTypes.includes(typeof value),
+    )
+  );
+};
+
+/**
+ * Placeholder replacing bound values in redacted errors.
+ */
+const REDACTED_VALUE = "[redacted]";
+
+/**
+ * Masks bound values while keeping their positions or names, so errors can be logged safely.
+ *
+ * @param parameters - Parameters to mask
+ * @returns Parameters of the same shape holding placeholders
+ */
+export const redactParameters = (parameters: SqlParameters): SqlParameters => {
   // 1. Handle array parameters
   if (Array.isArray(parameters)) {
-    return parameters.every(
-      (value) =>
-        value === null ||
-        supportedTypes.includes(typeof value) ||
-        value instanceof Uint8Array ||
-        value instanceof Date ||
-        ArrayBuffer.isView(value),
-    );
+    return parameters.map(() => REDACTED_VALUE);
   }
 
   // 2. Handle object parameters
-  return Object.values(parameters).every(
-    (value) =>
-      value === null ||
-      supportedTypes.includes(typeof value) ||
-      value instanceof Uint8Array ||
-      value instanceof Date ||
-      ArrayBuffer.isView(value),
+  return Object.fromEntries(
+    Object.keys(parameters).map((name) => [name, REDACTED_VALUE]),
   );
 };
@@ -0,0 +1,85 @@
+/**
+ * Worker plugins for Web-SQLite.
+ * Plugins are ES modules loaded into the worker that add named commands running next to the database.
+ */
+
+import type {
+  CallOptions,
+  PluginCommandArgs,
+  PluginCommandResult,
+  PluginCommands,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError, createWorkerError } from "./errors.js";
+
+/**
+ * Resolves plugin module URLs against the page, since the worker cannot resolve relative ones.
+ *
+ * @param plugins - Plugin module URLs
+ * @returns Absolute module URLs
+ * @throws {WebSQLiteError} If a plugin is neither a string nor a URL
+ */
+export const resolvePluginUrls = (
+  plugins: ReadonlyArray<string | URL>,
+): string[] => {
+  if (!Array.isArray(plugins)) {
+    throw new WebSQLiteError("Plugins must be an array of module URLs");
+  }
+  return plugins.map((plugin) => {
+    if (typeof plugin !== "string" && !(plugin instanceof URL)) {
+      throw new WebSQLiteError("Plugins must be an array of module URLs");
+    }
+    return new URL(plugin, globalThis.location?.href).href;
+  });
+};
+
+/**
+ * Loads plugins into a worker, in order.
+ *
+ * @param promiser - Worker promiser function
+ * @param plugins - Absolute plugin module URLs
+ * @returns Promise resolving once every plugin's commands are registered
+ */
+export const loadPlugins = async (
+  promiser: WorkerPromiseFunction,
+  plugins: ReadonlyArray<string>,
+): Promise<void> => {
+  for (const module of plugins) {
+    try {
+      await promiser("load-plugin", { module });
+    } catch (error) {
+      throw createWorkerError(error, "Plugin load");
+    }
+  }
+};
+
+/**
+ * Creates a function calling plugin commands.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @returns Function running a plugin command against the database
+ */
+export const createCallFunction = (promiser: WorkerPromiseFunction) => {
+  return async <K extends keyof PluginCommands & string>(
+    command: K,
+    args?: PluginCommandArgs<K>,
+    options: CallOptions = {},
+  ): Promise<PluginCommandResult<K>> => {
+    // 1. Input validation
+    if (!command || typeof command !== "string") {
+      throw new WebSQLiteError("Plugin command must be a non-empty string");
+    }
+
+    // 2. Run the command in the worker
+    try {
+      const response = await promiser(
+        "plugin-call",
+        { command, args },
+        options,
+      );
+      return response.result;
+    } catch (error) {
+      throw createWorkerError(error, `Plugin command ${command}`);
+    }
+  };
+};
@@ -0,0 +1,166 @@
+/**
+ * Per-connection operation scheduling for Web-SQLite.
+ * Serializes worker requests so a transaction owns the connection until it finishes.
+ */
+
+import type { WorkerPromiseFunction } from "./types.js";
+import {
+  WebSQLiteError,
+  DatabaseClosedError,
+  WorkerCrashedError,
+} from "./errors.js";
+
+/**
+ * Error message for a request the exclusive owner makes through the queue it is blocking.
+ */
+const REENTRANT_CALL_MESSAGE =
+  "Database called from inside one of its transactions, which would wait for the transaction forever; use the tx handle passed to the callback instead";
+
+/**
+ * Queue in front of a connection's worker promiser.
+ */
+export interface ConnectionScheduler {
+  /** Promiser whose requests wait for every earlier operation to finish */
+  promiser: WorkerPromiseFunction;
+
+  /**
+   * Runs a task with exclusive ownership of the connection.
+   * Queued requests wait until the task settles; only the promiser handed to the task goes through meanwhile.
+   * The owner promiser is tied to the worker the task started on: once that worker dies it fails every call.
+   *
+   * @param task - Work to run with the owner promiser
+   * @returns Promise resolving to the task's result
+   */
+  runExclusive<R>(
+    task: (promiser: WorkerPromiseFunction) => Promise<R>,
+  ): Promise<R>;
+
+  /**
+   * Runs code of the exclusive owner, such as a transaction callback.
+   * Requests it makes through the queue fail right away, since they would wait for the owner forever.
+   *
+   * @param fn - Owner code to run synchronously
+   * @returns The function's result
+   */
+  runAsOwner<R>(fn: () => R): R;
+
+  /**
+   * Treats the code resuming after a promise of the owner, e.g. after `await tx.query()`, as owner code.
+   * Only reactions registered on the promise itself are covered.
+   *
+   * @param promise - Promise handed to the owner code
+   * @returns The same promise
+   */
+  followOwner<R>(promise: Promise<R>): Promise<R>;
+
+  /**
+   * Runs a final task once every queued operation has finished.
+   * Operations requested from now on fail with DatabaseClosedError.
+   *
+   * @param task - Shutdown work
+   * @returns Promise resolving when the task has finished
+   */
+  close(task: () => Promise<void>): Promise<void>;
+}
+
+/**
+ * Creates a scheduler that runs a connection's operations one at a time, in call order.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param getGeneration - Returns the connection's worker generation, which changes when its worker crashes
+ * @returns Scheduler for the connection
+ */
+export const createConnectionScheduler = (
+  promiser: WorkerPromiseFunction,
+  getGeneration: () => number = () => 0,
+): ConnectionScheduler => {
+  let tail: Promise<unknown> = Promise.resolve();
+  let isClosed = false;
+  let ownerTurns = 0;
+
+  const rejectQueued = (): Promise<never> | null => {
+    if (isClosed) {
+      return Promise.reject(new DatabaseClosedError());
+    }
+    if (ownerTurns > 0) {
+      return Promise.reject(new WebSQLiteError(REENTRANT_CALL_MESSAGE));
+    }
+    return null;
+  };
+
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    // A failed operation must not block the ones queued after it
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    promiser: (type, args, options) =>
+      rejectQueued() ?? enqueue(() => promiser(type, args, options)),
+
+    runExclusive: <R>(
+      task: (promiser: WorkerPromiseFunction) => Promise<R>,
+    ): Promise<R> => {
+      const rejected = rejectQueued();
+      if (rejected) {
+        return rejected;
+      }
+      return enqueue(async () => {
+        // 1. Hand the task a promiser that only works while it owns the connection, on the worker it started on;
+        //    a replacement worker would run the task's remaining statements outside its transaction
+        let isOwner = true;
+        const generation = getGeneration();
+        const ownerPromiser: WorkerPromiseFunction = (type, args, options) => {
+          if (!isOwner) {
+            return Promise.reject(
+              new WebSQLiteError("Transaction has already finished"),
+            );
+          }
+          if (getGeneration() !== generation) {
+            return Promise.reject(
+              new WorkerCrashedError(
+                "Worker crashed during the transaction; its changes were lost",
+              ),
+            );
+          }
+          return promiser(type, args, options);
+        };
+
+        // 2. Run the task, releasing ownership however it ends
+        try {
+          return await task(ownerPromiser);
+        } finally {
+          isOwner = false;
+        }
+      });
+    },
+
+    runAsOwner: <R>(fn: () => R): R => {
+      ownerTurns++;
+      try {
+        return fn();
+      } finally {
+        ownerTurns--;
+      }
+    },
+
+    followOwner: <R>(promise: Promise<R>): Promise<R> => {
+      // Reactions run in registration order: this one opens the turn right before the owner resumes,
+      // and the microtask it queues closes it once the resumed code has run up to its next await
+      const resume = () => {
+        ownerTurns++;
+        queueMicrotask(() => {
+          ownerTurns--;
+        });
+      };
+      promise.then(resume, resume);
+      return promise;
+    },
+
+    close: (task: () => Promise<void>): Promise<void> => {
+      isClosed = true;
+      return enqueue(task);
+    },
+  };
+};
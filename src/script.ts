@@ -0,0 +1,179 @@
+/**
+ * Script execution for Web-SQLite.
+ * Runs multi-statement SQL, such as schema and fixture files, statement by statement with a report of each.
+ */
+
+import type {
+  CallOptions,
+  Database,
+  ExecScriptOptions,
+  ScriptLocation,
+  ScriptResult,
+  ScriptStatementResult,
+  SqlStatementInfo,
+  Transaction,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { createWorkerError, WebSQLiteError } from "./errors.js";
+import { classifySql } from "./classifier.js";
+import {
+  createQueryFunction,
+  createExecuteFunction,
+  createExecuteReturningFunction,
+  createRunFunction,
+} from "./exec.js";
+
+/**
+ * Methods a script's statements are run with: a transaction handle, or the connection itself.
+ */
+type ScriptRunner = Pick<
+  Transaction,
+  "query" | "execute" | "executeReturning" | "run"
+>;
+
+/**
+ * Locates a statement in the script text.
+ *
+ * @param script - SQL script
+ * @param statement - Statement to locate
+ * @param index - Zero-based position of the statement
+ * @returns Index, offset, and one-based line and column
+ */
+const locateStatement = (
+  script: string,
+  statement: SqlStatementInfo,
+  index: number,
+): ScriptLocation => {
+  const lines = script.slice(0, statement.start).split("\n");
+  return {
+    statementIndex: index,
+    offset: statement.start,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  };
+};
+
+/**
+ * Runs one statement with the method matching what it does.
+ *
+ * @param runner - Methods to run the statement with
+ * @param statement - Statement to run
+ * @param options - Per-statement timeout and abort signal
+ * @returns Changes made and rows returned
+ */
+const runStatement = async (
+  runner: ScriptRunner,
+  statement: SqlStatementInfo,
+  options: CallOptions,
+): Promise<Pick<ScriptStatementResult, "changes" | "rows">> => {
+  const { sql, operation, returnsRows, returning } = statement;
+  if (returning) {
+    const { changes, rows } = await runner.executeReturning(
+      sql,
+      undefined,
+      options,
+    );
+    return { changes, rows };
+  }
+  if (returnsRows) {
+    return { changes: 0, rows: await runner.query(sql, undefined, options) };
+  }
+  if (["insert", "update", "delete"].includes(operation)) {
+    const { changes } = await runner.execute(sql, undefined, options);
+    return { changes, rows: [] };
+  }
+  await runner.run(sql, undefined, options);
+  return { changes: 0, rows: [] };
+};
+
+/**
+ * Runs every statement of a script in order, stopping at the first failure.
+ *
+ * @param runner - Methods to run the statements with
+ * @param script - SQL script
+ * @param statements - Classified statements of the script
+ * @param options - Per-statement timeout and abort signal
+ * @returns Report of every statement
+ * @throws {WebSQLiteError} With the location of the failing statement
+ */
+const runScript = async (
+  runner: ScriptRunner,
+  script: string,
+  statements: ReadonlyArray<SqlStatementInfo>,
+  options: CallOptions,
+): Promise<ScriptResult> => {
+  const startTime = performance.now();
+  const results: ScriptStatementResult[] = [];
+
+  for (const [index, statement] of statements.entries()) {
+    // 1. Run the statement, pointing at it if it fails
+    const statementStart = performance.now();
+    let outcome: Pick<ScriptStatementResult, "changes" | "rows">;
+    try {
+      outcome = await runStatement(runner, statement, options);
+    } catch (error) {
+      const location = locateStatement(script, statement, index);
+      throw createWorkerError(
+        error,
+        `Script statement ${index + 1} of ${statements.length} (line ${location.line}, column ${location.column})`,
+        { sql: statement.sql, location },
+      );
+    }
+
+    // 2. Record its outcome
+    results.push({
+      index,
+      sql: statement.sql,
+      operation: statement.operation,
+      ...outcome,
+      duration: performance.now() - statementStart,
+    });
+  }
+
+  // 3. Sum up the script
+  return {
+    statements: results,
+    changes: results.reduce((total, result) => total + result.changes, 0),
+    duration: performance.now() - startTime,
+  };
+};
+
+/**
+ * Creates an exec function running multi-statement scripts with a per-statement report.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param transaction - Transaction function of the connection
+ * @returns Function to run a script, atomically unless asked otherwise
+ */
+export const createExecFunction = (
+  promiser: WorkerPromiseFunction,
+  transaction: Database["transaction"],
+) => {
+  const connectionRunner: ScriptRunner = {
+    query: createQueryFunction(promiser),
+    execute: createExecuteFunction(promiser),
+    executeReturning: createExecuteReturningFunction(promiser),
+    run: createRunFunction(promiser),
+  };
+
+  return async (
+    script: string,
+    options: ExecScriptOptions = {},
+  ): Promise<ScriptResult> => {
+    // 1. Input validation and splitting
+    if (typeof script !== "string") {
+      throw new WebSQLiteError("Script must be a string");
+    }
+    const statements = classifySql(script);
+    const { transaction: isAtomic = true, mode, ...callOptions } = options;
+
+    // 2. Run the statements, inside one transaction unless disabled
+    if (!isAtomic || statements.length === 0) {
+      return runScript(connectionRunner, script, statements, callOptions);
+    }
+    return transaction((tx) => runScript(tx, script, statements, {}), {
+      ...callOptions,
+      mode,
+    });
+  };
+};
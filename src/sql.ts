@@ -0,0 +1,219 @@
+/**
+ * Tagged-template SQL builder for Web-SQLite.
+ * Interpolated values become positional parameters; only fragments built here are spliced in as SQL.
+ */
+
+import type {
+  SqlFragment,
+  SqlInput,
+  SqlParameters,
+  SqlValue,
+} from "./types.js";
+import { WebSQLiteError } from "./errors.js";
+
+/**
+ * Values that may be interpolated into a sql`...` template.
+ */
+export type SqlTemplateValue = SqlValue | SqlFragment;
+
+/**
+ * Fragments created by this module. Only these are spliced in as SQL text,
+ * so a look-alike object coming from user data can never inject SQL.
+ */
+const fragments = new WeakSet<SqlFragment>();
+
+/**
+ * Creates an immutable, registered fragment.
+ *
+ * @param text - SQL text with positional placeholders
+ * @param parameters - Values for the placeholders, in order
+ * @returns SQL fragment
+ */
+const createFragment = (
+  text: string,
+  parameters: ReadonlyArray<SqlValue>,
+): SqlFragment => {
+  const fragment: SqlFragment = Object.freeze({
+    sql: text,
+    parameters: Object.freeze([...parameters]),
+  });
+  fragments.add(fragment);
+  return fragment;
+};
+
+/**
+ * Checks whether a value is a fragment built by the sql tag or its helpers.
+ *
+ * @param value - Value to check
+ * @returns true if the value is a SQL fragment
+ */
+export const isSqlFragment = (value: unknown): value is SqlFragment =>
+  typeof value === "object" &&
+  value !== null &&
+  fragments.has(value as SqlFragment);
+
+/**
+ * Appends one interpolated value: fragments are spliced in, anything else becomes a placeholder.
+ *
+ * @param parts - SQL text collected so far
+ * @param parameters - Parameters collected so far
+ * @param value - Interpolated value
+ */
+const appendValue = (
+  parts: string[],
+  parameters: SqlValue[],
+  value: SqlTemplateValue,
+): void => {
+  // 1. Reject values that cannot be bound
+  if (value === undefined) {
+    throw new WebSQLiteError("Cannot interpolate undefined into sql`...`");
+  }
+  if (Array.isArray(value)) {
+    throw new WebSQLiteError(
+      "Cannot interpolate an array into sql`...`; use sql.join() instead",
+    );
+  }
+
+  // 2. Splice fragments, bind everything else
+  if (isSqlFragment(value)) {
+    parts.push(value.sql);
+    parameters.push(...value.parameters);
+  } else {
+    parts.push("?");
+    parameters.push(value);
+  }
+};
+
+/**
+ * Tagged template turning interpolated values into positional parameters.
+ *
+ * @param strings - Literal template parts
+ * @param values - Interpolated values
+ * @returns SQL fragment
+ */
+const sqlTag = (
+  strings: TemplateStringsArray,
+  ...values: SqlTemplateValue[]
+): SqlFragment => {
+  const parts: string[] = [strings[0]];
+  const parameters: SqlValue[] = [];
+
+  values.forEach((value, index) => {
+    appendValue(parts, parameters, value);
+    parts.push(strings[index + 1]);
+  });
+
+  return createFragment(parts.join(""), parameters);
+};
+
+/**
+ * Quotes a table, column or schema name. Dotted paths are passed as separate parts.
+ *
+ * @param names - Name parts, e.g. ("main", "users")
+ * @returns Fragment holding the quoted identifier
+ */
+const identifier = (...names: string[]): SqlFragment => {
+  // 1. Input validation
+  if (names.length === 0) {
+    throw new WebSQLiteError("sql.identifier() requires at least one name");
+  }
+  for (const name of names) {
+    if (typeof name !== "string" || name.length === 0) {
+      throw new WebSQLiteError("Identifiers must be non-empty strings");
+    }
+  }
+
+  // 2. Quote each part, doubling embedded quotes
+  const quoted = names.map((name) => `"${name.replaceAll('"', '""')}"`);
+
+  // 3. Return the fragment
+  return createFragment(quoted.join("."), []);
+};
+
+/**
+ * Joins values or fragments into one fragment, e.g. for IN lists or column lists.
+ *
+ * @param values - Values (bound as parameters) or fragments (spliced in)
+ * @param separator - Fragment placed between items (defaults to ", ")
+ * @returns Joined fragment
+ */
+const join = (
+  values: ReadonlyArray<SqlTemplateValue>,
+  separator: SqlFragment = createFragment(", ", []),
+): SqlFragment => {
+  // 1. Input validation
+  if (!isSqlFragment(separator)) {
+    throw new WebSQLiteError("sql.join() separator must be a SQL fragment");
+  }
+
+  // 2. Append each item with separators in between
+  const parts: string[] = [];
+  const parameters: SqlValue[] = [];
+  values.forEach((value, index) => {
+    if (index > 0) {
+      parts.push(separator.sql);
+      parameters.push(...separator.parameters);
+    }
+    appendValue(parts, parameters, value);
+  });
+
+  // 3. Return the fragment
+  return createFragment(parts.join(""), parameters);
+};
+
+/**
+ * Splices text in verbatim. This is the explicit escape hatch: never pass untrusted input.
+ *
+ * @param text - Raw SQL text
+ * @returns Fragment holding the text
+ */
+const raw = (text: string): SqlFragment => {
+  if (typeof text !== "string") {
+    throw new WebSQLiteError("sql.raw() requires a string");
+  }
+  return createFragment(text, []);
+};
+
+/**
+ * Builds SQL with safely bound parameters.
+ *
+ * @example
+ * ```typescript
+ * const users = await db.query<User>(sql`SELECT * FROM users WHERE id = ${id}`);
+ *
+ * const columns = sql.join(['id', 'name'].map((name) => sql.identifier(name)));
+ * await db.query(sql`SELECT ${columns} FROM ${sql.identifier(table)} WHERE id IN (${sql.join(ids)})`);
+ * ```
+ */
+export const sql = Object.assign(sqlTag, { identifier, join, raw });
+
+/**
+ * Normalizes a SQL string or fragment into SQL text and parameters.
+ *
+ * @param input - SQL string or sql`...` fragment
+ * @param parameters - Separate parameters (only allowed with a plain string)
+ * @returns SQL text and its parameters
+ * @throws {WebSQLiteError} If parameters are passed separately with a fragment
+ */
+export const resolveSqlInput = (
+  input: SqlInput,
+  parameters?: SqlParameters,
+): { sql: string; parameters?: SqlParameters } => {
+  // 1. Plain strings pass through unchanged
+  if (!isSqlFragment(input)) {
+    return { sql: input as string, parameters };
+  }
+
+  // 2. Fragments carry their own parameters
+  if (parameters !== undefined) {
+    throw new WebSQLiteError(
+      "Parameters cannot be passed separately with a sql`...` fragment",
+    );
+  }
+
+  // 3. Return the fragment's SQL and parameters
+  return {
+    sql: input.sql,
+    parameters: input.parameters.length > 0 ? input.parameters : undefined,
+  };
+};
@@ -8,11 +8,885 @@ import opfsProxyCode from './jswasm/sqlite3-opfs-async-proxy.js?raw';
 import { default as sqlite3InitModule } from './jswasm/sqlite3-bundler-friendly.mjs';
 
 // Create the OPFS proxy worker blob URL
-const opfsProxyBlob = new Blob([opfsProxyCode], { 
-  type: 'application/javascript' 
+const opfsProxyBlob = new Blob([opfsProxyCode], {
+  type: 'application/javascript'
 });
 const opfsProxyUrl = URL.createObjectURL(opfsProxyBlob);
 
+/**
+ * Databases opened through the worker1 API, in the order they were opened.
+ * worker1 keeps its own handles private, so they are tracked here for the custom commands.
+ */
+const openDatabases = [];
+
+/**
+ * Prepared statements and open cursors kept alive in the worker, keyed by the id handed to the main thread.
+ * Ids carry a per-worker token, so an id of a replaced worker never names a statement of its successor.
+ */
+const preparedStatements = new Map();
+const workerToken = Math.random().toString(36).slice(2, 10);
+let statementSeq = 0;
+let cursorSeq = 0;
+
+/**
+ * Online backups in progress, keyed by the id handed to the main thread.
+ * Each holds its own connection to the target file and the next page to copy.
+ */
+const backups = new Map();
+let backupSeq = 0;
+
+/**
+ * Running state of every aggregate function invocation, keyed by its SQLite aggregate context.
+ */
+const aggregateStates = new Map();
+
+/**
+ * Commands registered by plugins, keyed by name.
+ */
+const pluginCommands = new Map();
+
+/**
+ * When each request in progress reached the worker, keyed by message id; reported back as workerTime.
+ */
+const requestStarts = new Map();
+
+/**
+ * Cancellation state of the request being handled.
+ * The main thread aborts a request by storing its token in the shared flag (only with cross-origin isolation);
+ * the deadline enforces the request's timeout inside the worker.
+ */
+const interruptState = { flag: null, token: 0, deadline: Infinity };
+
+/**
+ * Number of SQLite virtual machine steps between cancellation checks.
+ */
+const PROGRESS_CHECK_INTERVAL = 1000;
+
+/**
+ * Most recent SQLite3Error thrown in the worker.
+ * worker1 only forwards an error's message and class, so its result code is looked up here.
+ */
+let lastSqliteError = null;
+
+/**
+ * Progress handler deciding whether the running statement must stop.
+ * A non-zero result makes SQLite abandon the statement with SQLITE_INTERRUPT.
+ *
+ * @returns 1 if the current request was aborted or ran past its deadline, else 0
+ */
+const shouldInterrupt = () => {
+  const { flag, token, deadline } = interruptState;
+  if (flag && token !== 0 && Atomics.load(flag, 0) === token) return 1;
+  return performance.now() > deadline ? 1 : 0;
+};
+
+/**
+ * Arms the cancellation state for one request.
+ *
+ * @param interrupt - The request's { token, timeout }, if any
+ */
+const beginInterruptibleRequest = (interrupt) => {
+  interruptState.token = interrupt?.token ?? 0;
+  interruptState.deadline = interrupt?.timeout > 0 ? performance.now() + interrupt.timeout : Infinity;
+};
+
+/**
+ * Replaces sqlite3.oo1.DB with a subclass that records every opened database.
+ * Must run before initWorker1API(), which captures the DB class when it is called.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ */
+const installDatabaseTracking = (sqlite3) => {
+  const BaseDB = sqlite3.oo1.DB;
+
+  class TrackedDB extends BaseDB {
+    constructor(...args) {
+      super(...args);
+      openDatabases.push(this);
+      recordTableChanges(sqlite3, this);
+      sqlite3.capi.sqlite3_progress_handler(this, PROGRESS_CHECK_INTERVAL, shouldInterrupt, 0);
+    }
+
+    close() {
+      // 1. Finalize our statements and stop its backups first; oo1's close() does not reliably do it
+      finalizeDatabaseStatements(this);
+      finishDatabaseBackups(this);
+
+      // 2. Close the connection and forget it
+      super.close();
+      const index = openDatabases.indexOf(this);
+      if (index >= 0) openDatabases.splice(index, 1);
+    }
+  }
+
+  sqlite3.oo1.DB = TrackedDB;
+};
+
+/**
+ * Replaces sqlite3.SQLite3Error with a subclass that remembers the last error thrown.
+ * oo1 resolves the class through the sqlite3 object at throw time, so its errors are covered.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ */
+const installErrorTracking = (sqlite3) => {
+  const BaseError = sqlite3.SQLite3Error;
+
+  class TrackedSQLite3Error extends BaseError {
+    constructor(...args) {
+      super(...args);
+      lastSqliteError = this;
+    }
+  }
+  TrackedSQLite3Error.toss = (...args) => {
+    throw new TrackedSQLite3Error(...args);
+  };
+
+  sqlite3.SQLite3Error = TrackedSQLite3Error;
+};
+
+/**
+ * Describes the SQLite result code of an error for the main thread.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ * @param error - Error thrown while handling a message
+ * @returns { resultCode, code, extendedCode }, or an empty object for non-SQLite errors
+ */
+const describeResultCode = (sqlite3, error) => {
+  const resultCode = error?.resultCode;
+  if (typeof resultCode !== 'number') return {};
+  const { capi } = sqlite3;
+  return {
+    resultCode,
+    code: capi.sqlite3_js_rc_str(resultCode & 0xff),
+    extendedCode: capi.sqlite3_js_rc_str(resultCode),
+  };
+};
+
+/**
+ * Installs preupdate and rollback hooks that collect the tables modified by the current transaction.
+ * Collected names are posted to the main thread once the changes are committed.
+ * Unlike the update hook, the preupdate hook also reports WITHOUT ROWID tables, and having one
+ * turns off the truncate optimization that lets DELETE without WHERE skip the hooks.
+ * A commit hook counts write transactions, so backups can tell when the pages they copied went stale.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ * @param db - Newly opened database
+ */
+const recordTableChanges = (sqlite3, db) => {
+  const { capi } = sqlite3;
+  db.changedTables = new Set();
+  db.commitCount = 0;
+  if (capi.sqlite3_preupdate_hook) {
+    capi.sqlite3_preupdate_hook(db, (userData, pDb, operation, dbName, tableName) => {
+      db.changedTables.add(tableName);
+    }, 0);
+  } else {
+    // Builds without BigInt support lack the preupdate API
+    capi.sqlite3_update_hook(db, (userData, operation, dbName, tableName) => {
+      db.changedTables.add(tableName);
+    }, 0);
+  }
+  capi.sqlite3_commit_hook(db, () => {
+    db.commitCount++;
+    return 0;
+  }, 0);
+  capi.sqlite3_rollback_hook(db, () => {
+    db.changedTables.clear();
+  }, 0);
+};
+
+/**
+ * Posts a 'table-change' event for every database with committed, not yet reported changes.
+ * Changes made inside an open transaction are held back until it commits.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ */
+const postTableChanges = (sqlite3) => {
+  for (const db of openDatabases) {
+    if (db.changedTables.size === 0 || !sqlite3.capi.sqlite3_get_autocommit(db)) {
+      continue;
+    }
+    globalThis.postMessage({
+      type: 'table-change',
+      dbId: db.dbId,
+      result: { tables: Array.from(db.changedTables) },
+    });
+    db.changedTables.clear();
+  }
+};
+
+/**
+ * Resolves the database a message targets, mirroring worker1's lookup rules:
+ * the db named by dbId, or the first opened db when no id is given.
+ *
+ * @param message - Inbound worker message
+ * @returns The open database
+ */
+const getMessageDatabase = (message) => {
+  // worker1 ids have the form "db#<seq>@<pointer>"
+  const db = message.dbId
+    ? openDatabases.find((candidate) => message.dbId.endsWith('@' + candidate.pointer))
+    : openDatabases[0];
+  if (!db || !db.pointer) {
+    throw new Error('DB is not opened.');
+  }
+  return db;
+};
+
+/**
+ * Looks up a prepared statement by its id.
+ *
+ * @param statementId - Id returned by the 'prepare' command
+ * @returns The live sqlite3 statement
+ */
+const getPreparedStatement = (statementId) => {
+  const entry = preparedStatements.get(statementId);
+  if (!entry || !entry.stmt.pointer) {
+    throw new Error(`Unknown (or finalized) statement id: ${statementId}`);
+  }
+  return entry.stmt;
+};
+
+/**
+ * Finalizes and forgets every prepared statement belonging to the given database.
+ *
+ * @param db - Database being closed
+ */
+const finalizeDatabaseStatements = (db) => {
+  for (const [statementId, entry] of preparedStatements) {
+    if (entry.db === db) {
+      if (entry.stmt.pointer) entry.stmt.finalize();
+      preparedStatements.delete(statementId);
+    }
+  }
+};
+
+/**
+ * Looks up a backup in progress by its id.
+ *
+ * @param backupId - Id returned by the 'backup-start' command
+ * @returns The backup's state
+ */
+const getBackup = (backupId) => {
+  const backup = backups.get(backupId);
+  if (!backup) {
+    throw new Error(`Unknown (or finished) backup id: ${backupId}`);
+  }
+  return backup;
+};
+
+/**
+ * Closes the target connection of a backup and forgets it.
+ *
+ * @param backupId - Id of the backup
+ */
+const finishBackup = (backupId) => {
+  const backup = backups.get(backupId);
+  if (backup) {
+    backups.delete(backupId);
+    backup.target.close();
+  }
+};
+
+/**
+ * Stops every backup copying from the given database.
+ *
+ * @param db - Database being closed
+ */
+const finishDatabaseBackups = (db) => {
+  for (const [backupId, backup] of backups) {
+    if (backup.source === db) finishBackup(backupId);
+  }
+};
+
+/**
+ * Resets the statement and applies a fresh set of bindings.
+ *
+ * @param stmt - Statement to prepare for another execution
+ * @param bind - Positional or named bindings, if any
+ */
+const rebindStatement = (stmt, bind) => {
+  stmt.reset(true);
+  if (bind !== undefined && bind !== null && stmt.parameterCount > 0) {
+    stmt.bind(bind);
+  }
+};
+
+/**
+ * Describes the result columns of a statement.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ * @param stmt - Prepared statement
+ * @returns One { name, declaredType } entry per result column
+ */
+const describeColumns = (sqlite3, stmt) => {
+  const columns = [];
+  for (let index = 0; index < stmt.columnCount; ++index) {
+    columns.push({
+      name: stmt.getColumnName(index),
+      declaredType: sqlite3.capi.sqlite3_column_decltype(stmt.pointer, index) || null,
+    });
+  }
+  return columns;
+};
+
+/**
+ * Describes the result columns of a statement for codecs on the main thread.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ * @param stmt - Prepared statement
+ * @returns { columnNames, declaredTypes }, with null types for expressions
+ */
+const describeDeclaredTypes = (sqlite3, stmt) => {
+  const declaredTypes = [];
+  for (let index = 0; index < stmt.columnCount; ++index) {
+    declaredTypes.push(sqlite3.capi.sqlite3_column_decltype(stmt.pointer, index) || null);
+  }
+  return { columnNames: stmt.getColumnNames(), declaredTypes };
+};
+
+/**
+ * Turns the source text of a self-contained function back into a function.
+ * Accepts function expressions, arrow functions and method shorthand ("slugify(text) { ... }").
+ *
+ * @param source - Function source from Function.prototype.toString()
+ * @returns The function
+ */
+const compileFunction = (source) => {
+  let compiled;
+  try {
+    compiled = new Function(`return (${source});`)();
+  } catch {
+    compiled = Object.values(new Function(`return ({ ${source} });`)())[0];
+  }
+  if (typeof compiled !== 'function') {
+    throw new Error('Function source does not evaluate to a function');
+  }
+  return compiled;
+};
+
+/**
+ * Loads the implementation of a user-defined function from source or from a module.
+ *
+ * @param implementation - { source } for scalars, { sources } for aggregates, or { module, exportName }
+ * @returns A function, or an aggregate's { start, step, final }
+ */
+const loadImplementation = async (implementation) => {
+  if (implementation.module) {
+    const exports = await import(/* @vite-ignore */ implementation.module);
+    const exported = exports[implementation.exportName ?? 'default'];
+    if (exported === undefined) {
+      throw new Error(`Module ${implementation.module} has no export named ${implementation.exportName ?? 'default'}`);
+    }
+    return exported;
+  }
+  if (implementation.sources) {
+    return Object.fromEntries(
+      Object.entries(implementation.sources).map(([key, source]) => [key, compileFunction(source)]),
+    );
+  }
+  return compileFunction(implementation.source);
+};
+
+/**
+ * Checks whether this worker can use OPFS sync access handles, which the SAH pool VFS needs.
+ *
+ * @returns true if the SAH pool VFS can be installed
+ */
+const supportsSyncAccessHandles = () =>
+  typeof globalThis.FileSystemFileHandle === 'function' &&
+  typeof globalThis.FileSystemFileHandle.prototype.createSyncAccessHandle === 'function' &&
+  typeof navigator !== 'undefined' &&
+  !!navigator.storage &&
+  typeof navigator.storage.getDirectory === 'function';
+
+/**
+ * Handlers for the commands this wrapper adds next to the worker1 API.
+ * Each handler receives the inbound message and returns the result payload, or throws.
+ */
+const commandHandlers = {
+  prepare: (sqlite3, message) => {
+    const db = getMessageDatabase(message);
+    const stmt = db.prepare(message.args.sql);
+    const statementId = `stmt#${++statementSeq}@${workerToken}`;
+    preparedStatements.set(statementId, { db, stmt });
+    return {
+      statementId,
+      parameterCount: stmt.parameterCount,
+      // getColumnNames() throws for statements without result columns
+      columnNames: stmt.columnCount > 0 ? stmt.getColumnNames() : [],
+    };
+  },
+
+  'statement-all': (sqlite3, message) => {
+    const stmt = getPreparedStatement(message.args.statementId);
+    rebindStatement(stmt, message.args.bind);
+    const resultRows = [];
+    try {
+      while (stmt.step()) {
+        resultRows.push(stmt.get({}));
+      }
+    } finally {
+      stmt.reset();
+    }
+    const columns = message.args.declaredTypes ? describeDeclaredTypes(sqlite3, stmt) : {};
+    return { resultRows, ...columns };
+  },
+
+  'statement-get': (sqlite3, message) => {
+    const stmt = getPreparedStatement(message.args.statementId);
+    rebindStatement(stmt, message.args.bind);
+    const columns = message.args.declaredTypes ? describeDeclaredTypes(sqlite3, stmt) : {};
+    try {
+      return { row: stmt.step() ? stmt.get({}) : null, ...columns };
+    } finally {
+      stmt.reset();
+    }
+  },
+
+  'statement-run': (sqlite3, message) => {
+    const stmt = getPreparedStatement(message.args.statementId);
+    rebindStatement(stmt, message.args.bind);
+    try {
+      while (stmt.step()) {
+        // Drain any rows; run() only reports the modification metadata
+      }
+    } finally {
+      stmt.reset();
+    }
+    return {
+      changeCount: stmt.db.changes(),
+      lastInsertRowId: Number(sqlite3.capi.sqlite3_last_insert_rowid(stmt.db)),
+    };
+  },
+
+  'execute-many': (sqlite3, message) => {
+    const { sql, rows, transaction } = message.args;
+    const db = getMessageDatabase(message);
+    const runBatch = () => {
+      const stmt = db.prepare(sql);
+      try {
+        let changes = 0;
+        const rowChanges = [];
+        const lastInsertRowIds = [];
+        for (const bind of rows) {
+          rebindStatement(stmt, bind);
+          while (stmt.step()) {
+            // Drain any rows; only the modification metadata is reported
+          }
+          // The last insert row ID outlives rows that insert nothing, so the host needs each row's count
+          rowChanges.push(db.changes());
+          changes += rowChanges[rowChanges.length - 1];
+          lastInsertRowIds.push(Number(sqlite3.capi.sqlite3_last_insert_rowid(db)));
+        }
+        return { changes, rowChanges, lastInsertRowIds };
+      } finally {
+        stmt.finalize();
+      }
+    };
+    // A savepoint acts as BEGIN at the top level and nests inside an open transaction
+    return transaction ? db.savepoint(runBatch) : runBatch();
+  },
+
+  'cursor-open': (sqlite3, message) => {
+    const db = getMessageDatabase(message);
+    const stmt = db.prepare(message.args.sql);
+    try {
+      rebindStatement(stmt, message.args.bind);
+    } catch (error) {
+      stmt.finalize();
+      throw error;
+    }
+    const cursorId = `cursor#${++cursorSeq}@${workerToken}`;
+    preparedStatements.set(cursorId, { db, stmt });
+    return { cursorId };
+  },
+
+  'cursor-next': (sqlite3, message) => {
+    const { cursorId, batchSize, declaredTypes } = message.args;
+    const stmt = getPreparedStatement(cursorId);
+    const columns = declaredTypes ? describeDeclaredTypes(sqlite3, stmt) : {};
+    const rows = [];
+    let done = false;
+    try {
+      while (rows.length < batchSize) {
+        if (!stmt.step()) {
+          done = true;
+          break;
+        }
+        rows.push(stmt.get({}));
+      }
+    } catch (error) {
+      done = true;
+      throw error;
+    } finally {
+      // An exhausted (or failed) cursor releases its statement right away
+      if (done) {
+        stmt.finalize();
+        preparedStatements.delete(cursorId);
+      }
+    }
+    return { rows, done, ...columns };
+  },
+
+  'backup-start': (sqlite3, message) => {
+    // Copies go through sqlite_dbpage: this build has no sqlite3_backup_*() API
+    const { filename, vfs } = message.args;
+    const source = getMessageDatabase(message);
+    if (source.filename === filename && source.dbVfsName() === vfs) {
+      throw new Error('Cannot back up a database onto itself');
+    }
+    const target = new sqlite3.oo1.DB({ filename, vfs, flags: 'c' });
+    try {
+      // The page size of an empty target can still be set; an existing one must already match
+      const pageSize = source.selectValue('PRAGMA main.page_size');
+      target.exec(`PRAGMA page_size = ${pageSize}`);
+      const targetPageSize = target.selectValue('PRAGMA page_size');
+      if (targetPageSize !== pageSize) {
+        throw new Error(`Backup target ${filename} has page size ${targetPageSize}, the database uses ${pageSize}`);
+      }
+    } catch (error) {
+      target.close();
+      throw error;
+    }
+    const backupId = `backup#${++backupSeq}`;
+    backups.set(backupId, { source, target, nextPage: 2, version: null, restarts: 0 });
+    return { backupId };
+  },
+
+  'backup-step': (sqlite3, message) => {
+    const { backupId, pages } = message.args;
+    const backup = getBackup(backupId);
+    const { source, target } = backup;
+
+    // 1. Uncommitted pages must not reach the copy
+    if (!sqlite3.capi.sqlite3_get_autocommit(source)) {
+      throw new Error('Cannot copy pages while a transaction is open');
+    }
+
+    // 2. Read the next range in one read transaction; page 1 comes last, since its header
+    //    makes the target claim every page
+    const step = source.transaction((db) => {
+      // A commit since the last step, on this connection or another, may have changed pages already copied
+      const version = `${db.commitCount}:${db.selectValue('PRAGMA main.data_version')}`;
+      if (backup.version !== null && backup.version !== version) {
+        backup.nextPage = 2;
+        backup.restarts++;
+      }
+      backup.version = version;
+      const totalPages = db.selectValue('PRAGMA main.page_count');
+      const lastPage = Math.min(backup.nextPage + pages - 1, totalPages);
+      const done = lastPage >= totalPages;
+      // sqlite_dbpage only looks pages up for pgno = ?; ranges and ORs make every step scan the whole file
+      const pageNumbers = [];
+      for (let pgno = backup.nextPage; pgno <= lastPage; pgno++) pageNumbers.push(pgno);
+      if (done) pageNumbers.push(1);
+      const select = db.prepare("SELECT data FROM sqlite_dbpage('main') WHERE pgno = ?");
+      const rows = [];
+      try {
+        for (const pgno of pageNumbers) {
+          select.bind([pgno]);
+          if (select.step()) rows.push([pgno, select.get(0)]);
+          select.reset();
+        }
+      } finally {
+        select.finalize();
+      }
+      return { totalPages, lastPage, done, rows };
+    });
+
+    // 3. Write it in one transaction; writing NULL past the last page truncates a target that used to be larger
+    target.transaction(() => {
+      const insert = target.prepare('INSERT INTO sqlite_dbpage(pgno, data) VALUES (?, ?)');
+      try {
+        for (const row of step.rows) {
+          insert.bind(row).stepReset();
+        }
+        if (step.done) {
+          insert.bind([step.totalPages + 1, null]).stepReset();
+        }
+      } finally {
+        insert.finalize();
+      }
+    });
+    backup.nextPage = step.lastPage + 1;
+
+    // 4. The finished copy is closed right away
+    if (step.done) {
+      finishBackup(backupId);
+    }
+    return {
+      copiedPages: step.done ? step.totalPages : step.lastPage - 1,
+      totalPages: step.totalPages,
+      restarts: backup.restarts,
+      done: step.done,
+    };
+  },
+
+  'backup-finish': (sqlite3, message) => {
+    finishBackup(message.args.backupId);
+    return {};
+  },
+
+  'query-meta': (sqlite3, message) => {
+    const { sql, bind, rowMode } = message.args;
+    const db = getMessageDatabase(message);
+    const stmt = db.prepare(sql);
+    try {
+      rebindStatement(stmt, bind);
+      const columns = describeColumns(sqlite3, stmt);
+      const rows = [];
+      while (stmt.step()) {
+        rows.push(stmt.get(rowMode === 'array' ? [] : {}));
+      }
+      return { columns, rows };
+    } finally {
+      stmt.finalize();
+    }
+  },
+
+  'query-tables': (sqlite3, message) => {
+    // Compile the query with an authorizer that records every table it reads
+    const { capi } = sqlite3;
+    const db = getMessageDatabase(message);
+    const tables = new Set();
+    capi.sqlite3_set_authorizer(db, (userData, actionCode, tableName) => {
+      if (actionCode === capi.SQLITE_READ && tableName && !tableName.startsWith('sqlite_')) {
+        tables.add(tableName);
+      }
+      return 0;
+    }, 0);
+    try {
+      db.prepare(message.args.sql).finalize();
+    } finally {
+      capi.sqlite3_set_authorizer(db, 0, 0);
+    }
+    return { tables: Array.from(tables) };
+  },
+
+  'interrupt-flag': (sqlite3, message) => {
+    interruptState.flag = new Int32Array(message.args.buffer);
+    return {};
+  },
+
+  'create-function': async (sqlite3, message) => {
+    const { name, kind, implementation, arity, deterministic, directOnly } = message.args;
+    const db = getMessageDatabase(message);
+    const loaded = await loadImplementation(implementation);
+    const options = { name, arity, deterministic, directOnly };
+
+    // 1. Scalars map their arguments straight to a result
+    if (kind === 'scalar') {
+      if (typeof loaded !== 'function') {
+        throw new Error(`Implementation of ${name}() is not a function`);
+      }
+      db.createFunction({ ...options, xFunc: (pCtx, ...args) => loaded(...args) });
+      return { name };
+    }
+
+    // 2. Aggregates fold every row into a state kept per invocation, then turn it into the result
+    const { start = () => null, step, final = (state) => state } = loaded;
+    if (typeof step !== 'function') {
+      throw new Error(`Aggregate ${name}() has no step function`);
+    }
+    const { capi } = sqlite3;
+    db.createFunction({
+      ...options,
+      xStep: (pCtx, ...args) => {
+        const key = capi.sqlite3_aggregate_context(pCtx, 1);
+        const state = aggregateStates.has(key) ? aggregateStates.get(key) : start();
+        aggregateStates.set(key, step(state, ...args));
+      },
+      xFinal: (pCtx) => {
+        // No context means the aggregate saw no rows
+        const key = capi.sqlite3_aggregate_context(pCtx, 0);
+        const state = key && aggregateStates.has(key) ? aggregateStates.get(key) : start();
+        aggregateStates.delete(key);
+        return final(state);
+      },
+    });
+    return { name };
+  },
+
+  'load-plugin': async (sqlite3, message) => {
+    const { module } = message.args;
+    const exports = await import(/* @vite-ignore */ module);
+    const commands = exports.default?.commands;
+    if (!commands || typeof commands !== 'object') {
+      throw new Error(`Plugin ${module} must export a default object with a commands property`);
+    }
+
+    // 1. Check every command before registering any, so a failed load leaves nothing behind
+    const entries = Object.entries(commands);
+    for (const [name, handler] of entries) {
+      if (typeof handler !== 'function') {
+        throw new Error(`Plugin command ${name} of ${module} is not a function`);
+      }
+      if (pluginCommands.has(name)) {
+        throw new Error(`Plugin command ${name} is already registered by ${pluginCommands.get(name).module}`);
+      }
+    }
+
+    // 2. Register them
+    for (const [name, handler] of entries) {
+      pluginCommands.set(name, { module, handler });
+    }
+    return { commands: entries.map(([name]) => name) };
+  },
+
+  'plugin-call': async (sqlite3, message) => {
+    const { command, args } = message.args;
+    const entry = pluginCommands.get(command);
+    if (!entry) {
+      throw new Error(`Unknown plugin command: ${command}`);
+    }
+    const result = await entry.handler(args, { sqlite3, db: getMessageDatabase(message) });
+    return { result };
+  },
+
+  // Sent right before the worker is terminated, so nothing outlives it on the page
+  shutdown: () => {
+    for (const db of openDatabases.slice()) {
+      db.close();
+    }
+    URL.revokeObjectURL(opfsProxyUrl);
+    return {};
+  },
+
+  'storage-support': (sqlite3) => ({
+    memory: true,
+    // The "opfs" VFS only registers itself when SharedArrayBuffer is usable (cross-origin isolation)
+    opfs: !!sqlite3.capi.sqlite3_vfs_find('opfs'),
+    'opfs-sahpool': supportsSyncAccessHandles(),
+  }),
+
+  'install-sahpool': async (sqlite3) => {
+    const poolUtil = await sqlite3.installOpfsSAHPoolVfs();
+    return { vfs: poolUtil.vfsName };
+  },
+
+  import: async (sqlite3, message) => {
+    // Writes a database image into OPFS; the target must not be open
+    const { filename, bytes, overwrite, storage } = message.args;
+    let target = sqlite3.opfs;
+    if (storage === 'opfs-sahpool') {
+      const poolUtil = await sqlite3.installOpfsSAHPoolVfs();
+      target = {
+        entryExists: async (name) => poolUtil.getFileNames().includes(name),
+        importDb: (name, data) => poolUtil.importDb(name, data),
+      };
+    }
+    if (!target) {
+      throw new Error('OPFS is not available in this browser.');
+    }
+    if (!overwrite && await target.entryExists(filename)) {
+      throw new Error(`Database file already exists: ${filename}`);
+    }
+    const bytesWritten = await target.importDb(filename, bytes);
+    return { filename, bytesWritten };
+  },
+
+  'statement-finalize': (sqlite3, message) => {
+    const entry = preparedStatements.get(message.args.statementId);
+    if (entry) {
+      if (entry.stmt.pointer) entry.stmt.finalize();
+      preparedStatements.delete(message.args.statementId);
+    }
+    return {};
+  },
+};
+
+/**
+ * Routes inbound messages to the custom command handlers, falling back to worker1 for everything else.
+ * Responses use the same envelope as worker1, including the 'error' type on failure.
+ *
+ * @param sqlite3 - Initialized sqlite3 module
+ */
+const installCommandHandlers = (sqlite3) => {
+  const worker1OnMessage = globalThis.onmessage;
+
+  const handleMessage = async (event) => {
+    const message = event.data;
+    const handler = commandHandlers[message.type];
+    if (!handler) {
+      return worker1OnMessage(event);
+    }
+
+    try {
+      const result = await handler(sqlite3, message);
+      globalThis.postMessage({ type: message.type, messageId: message.messageId, result });
+    } catch (error) {
+      globalThis.postMessage({
+        type: 'error',
+        messageId: message.messageId,
+        result: {
+          operation: message.type,
+          message: error.message,
+          errorClass: error.name,
+          ...describeResultCode(sqlite3, error),
+        },
+      });
+    }
+  };
+
+  // worker1 reports failures without the result code; add it from the error that caused them
+  const postMessage = globalThis.postMessage.bind(globalThis);
+  globalThis.postMessage = (message, ...rest) => {
+    const result = message?.type === 'error' ? message.result : null;
+    if (result && result.resultCode === undefined && lastSqliteError?.message === result.message) {
+      Object.assign(result, describeResultCode(sqlite3, lastSqliteError));
+    }
+
+    // Report how long the worker spent on the request, so tracing can tell it from the round trip
+    if (message?.messageId && requestStarts.has(message.messageId)) {
+      message.workerTime = performance.now() - requestStarts.get(message.messageId);
+      requestStarts.delete(message.messageId);
+    }
+
+    // Remember the id worker1 gave a newly opened database, so its events can name it
+    if (message?.type === 'open' && message.result?.dbId) {
+      getMessageDatabase({ dbId: message.result.dbId }).dbId = message.result.dbId;
+    }
+
+    // worker1 counts changes with sqlite3_total_changes(), which includes trigger writes; report the statement's own
+    if (message?.type === 'exec' && message.result?.countChanges) {
+      message.result.changeCount = getMessageDatabase(message).changes();
+    }
+
+    // worker1's exec cannot describe column types; recompile the query's first statement for codecs
+    if (message?.type === 'exec' && message.result?.declaredTypes === true) {
+      let stmt = null;
+      try {
+        stmt = getMessageDatabase(message).prepare(message.result.sql);
+        message.result.declaredTypes = describeDeclaredTypes(sqlite3, stmt).declaredTypes;
+      } catch {
+        // Rows are then decoded by column name only
+        message.result.declaredTypes = [];
+      } finally {
+        stmt?.finalize();
+      }
+    }
+    return postMessage(message, ...rest);
+  };
+
+  globalThis.onmessage = async (event) => {
+    lastSqliteError = null;
+    if (event.data?.messageId) {
+      requestStarts.set(event.data.messageId, performance.now());
+    }
+    try {
+      // Statements run synchronously before the handler's first await, so disarm right after dispatch
+      beginInterruptibleRequest(event.data.interrupt);
+      const handled = handleMessage(event);
+      beginInterruptibleRequest(undefined);
+      await handled;
+    } finally {
+      // Any command may have committed changes that live queries need to hear about
+      postTableChanges(sqlite3);
+    }
+  };
+};
+
 // Initialize SQLite with the OPFS proxy URL provided
 sqlite3InitModule({
   // Override the default OPFS proxy URI
@@ -22,7 +896,14 @@ sqlite3InitModule({
   if (sqlite3.installOpfsVfs) {
     sqlite3.installOpfsVfs.defaultProxyUri = opfsProxyUrl;
   }
-  
+
+  // Track databases so the custom commands can reach them, and errors so their codes reach the main thread
+  installDatabaseTracking(sqlite3);
+  installErrorTracking(sqlite3);
+
   // Initialize the worker API
   sqlite3.initWorker1API();
+
+  // Layer the custom commands on top of worker1's message handler
+  installCommandHandlers(sqlite3);
 });
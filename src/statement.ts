@@ -0,0 +1,252 @@
+/**
+ * Prepared statement support for Web-SQLite.
+ * Statements are compiled once inside the worker and executed by handle afterwards.
+ */
+
+import type {
+  CallOptions,
+  SqlInput,
+  SqlOperationType,
+  SqlParameters,
+  WorkerPromiseFunction,
+  ModificationResult,
+  PreparedStatement,
+} from "./types.js";
+import {
+  validateSqlInput,
+  createWorkerError,
+  WebSQLiteError,
+} from "./errors.js";
+import { bindParameters, validateParameterTypes } from "./parameters.js";
+import { resolveSqlInput } from "./sql.js";
+import {
+  analyzeSqlOperation,
+  classifySingleStatement,
+  toModificationResult,
+} from "./exec.js";
+
+/**
+ * Worker-side identity of a prepared statement, replaced when the worker is.
+ */
+interface StatementHandle {
+  /** SQL the statement was prepared from */
+  sql: string;
+  /** Worker-side statement id, or null once preparing it on a replacement worker failed */
+  statementId: string | null;
+  /** Why the statement could not be prepared again */
+  error?: Error;
+}
+
+/**
+ * Statements that are still alive in the worker for one connection, with their worker-side handles.
+ */
+export type StatementRegistry = Map<
+  PreparedStatement<unknown>,
+  StatementHandle
+>;
+
+/**
+ * Creates a main-thread handle for a statement that lives in the worker.
+ *
+ * @param promiser - Worker promiser function
+ * @param handle - Worker-side identity of the statement
+ * @param registry - Registry the statement removes itself from once finalized
+ * @returns Prepared statement handle
+ */
+const createPreparedStatement = <T>(
+  promiser: WorkerPromiseFunction,
+  handle: StatementHandle,
+  registry: StatementRegistry,
+): PreparedStatement<T> => {
+  const { sql } = handle;
+  const operation: SqlOperationType = analyzeSqlOperation(sql);
+  let isFinalized = false;
+
+  const executeStatement = async (
+    type: string,
+    parameters: SqlParameters | undefined,
+    options: CallOptions = {},
+  ): Promise<any> => {
+    // 1. Input validation
+    if (isFinalized) {
+      throw new WebSQLiteError("Statement has been finalized");
+    }
+    validateSqlInput(sql, parameters);
+    if (parameters && !validateParameterTypes(parameters)) {
+      throw createWorkerError(
+        new Error("Invalid parameter types"),
+        "Parameter validation",
+      );
+    }
+
+    // 2. Execute the statement by id; a call made while the worker was replaced retries with the new id
+    const send = (statementId: string | null) => {
+      if (statementId === null) {
+        throw new WebSQLiteError(
+          `Statement could not be prepared again after the worker was replaced: ${handle.error?.message}`,
+          handle.error,
+        );
+      }
+      // The SQL is only sent along to describe errors
+      return promiser(
+        type,
+        { statementId, sql, bind: bindParameters(parameters) },
+        options,
+      );
+    };
+    const statementId = handle.statementId;
+    try {
+      try {
+        return await send(statementId);
+      } catch (error) {
+        if (handle.statementId === statementId) {
+          throw error;
+        }
+        return await send(handle.statementId);
+      }
+    } catch (error) {
+      throw createWorkerError(error, "Statement execution");
+    }
+  };
+
+  const statement: PreparedStatement<T> = {
+    sql,
+
+    all: async (
+      parameters?: SqlParameters,
+      options?: CallOptions,
+    ): Promise<T[]> => {
+      const result = await executeStatement(
+        "statement-all",
+        parameters,
+        options,
+      );
+      return Array.isArray(result.resultRows) ? (result.resultRows as T[]) : [];
+    },
+
+    get: async (
+      parameters?: SqlParameters,
+      options?: CallOptions,
+    ): Promise<T | null> => {
+      const result = await executeStatement(
+        "statement-get",
+        parameters,
+        options,
+      );
+      return (result.row as T) ?? null;
+    },
+
+    run: async (
+      parameters?: SqlParameters,
+      options?: CallOptions,
+    ): Promise<ModificationResult> => {
+      const result = await executeStatement(
+        "statement-run",
+        parameters,
+        options,
+      );
+      return toModificationResult(result, operation);
+    },
+
+    finalize: async (): Promise<void> => {
+      // 1. Finalizing twice is a no-op
+      if (isFinalized) {
+        return;
+      }
+      isFinalized = true;
+      registry.delete(statement as PreparedStatement<unknown>);
+
+      // 2. Release the worker-side statement, unless it did not survive a worker replacement
+      if (handle.statementId === null) {
+        return;
+      }
+      try {
+        await promiser("statement-finalize", {
+          statementId: handle.statementId,
+        });
+      } catch (error) {
+        throw createWorkerError(error, "Statement finalize");
+      }
+    },
+  };
+
+  return statement;
+};
+
+/**
+ * Creates a prepare function that compiles statements once and keeps them in the worker.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param registry - Registry tracking the connection's live statements
+ * @returns Function to prepare a statement and return its handle
+ */
+export const createPrepareFunction = (
+  promiser: WorkerPromiseFunction,
+  registry: StatementRegistry,
+) => {
+  return async <T>(
+    input: SqlInput,
+    options: CallOptions = {},
+  ): Promise<PreparedStatement<T>> => {
+    // 1. Input validation; the worker would compile only the first of several statements,
+    //    and parameters are supplied per execution
+    const { sql, parameters } = resolveSqlInput(input);
+    validateSqlInput(sql);
+    classifySingleStatement(sql);
+    if (parameters) {
+      throw new WebSQLiteError(
+        "prepare() does not take bound values; pass them to all(), get() or run()",
+      );
+    }
+
+    // 2. Compile the statement in the worker
+    let result: any;
+    try {
+      result = await promiser("prepare", { sql }, options);
+    } catch (error) {
+      throw createWorkerError(error, "Statement prepare");
+    }
+
+    // 3. Track and return the handle
+    const handle: StatementHandle = { sql, statementId: result.statementId };
+    const statement = createPreparedStatement<T>(promiser, handle, registry);
+    registry.set(statement as PreparedStatement<unknown>, handle);
+    return statement;
+  };
+};
+
+/**
+ * Finalizes every statement that is still alive, e.g. before closing the connection.
+ *
+ * @param registry - Registry tracking the connection's live statements
+ * @returns Promise resolving when all statements are finalized
+ */
+export const finalizeAllStatements = async (
+  registry: StatementRegistry,
+): Promise<void> => {
+  const statements = Array.from(registry.keys());
+  await Promise.all(statements.map((statement) => statement.finalize()));
+};
+
+/**
+ * Prepares every live statement again on a replacement worker, whose predecessor took them along.
+ * Statements that no longer compile, e.g. because their table is gone, fail when used next.
+ *
+ * @param promiser - Worker promiser function of the replacement worker
+ * @param registry - Registry tracking the connection's live statements
+ * @returns Promise resolving when every statement has been handled
+ */
+export const restoreStatements = async (
+  promiser: WorkerPromiseFunction,
+  registry: StatementRegistry,
+): Promise<void> => {
+  for (const handle of registry.values()) {
+    try {
+      const result = await promiser("prepare", { sql: handle.sql });
+      handle.statementId = result.statementId;
+    } catch (error) {
+      handle.statementId = null;
+      handle.error = error as Error;
+    }
+  }
+};
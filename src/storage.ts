@@ -0,0 +1,61 @@
+/**
+ * Storage backend selection for Web-SQLite.
+ * Detects which VFS the worker can use and resolves "auto" to the best available one.
+ */
+
+import type {
+  StorageBackend,
+  StorageOption,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { WebSQLiteError, createWorkerError } from "./errors.js";
+
+/**
+ * Backends tried by "auto", best first.
+ */
+const AUTO_PREFERENCE: StorageBackend[] = ["opfs", "opfs-sahpool", "memory"];
+
+/**
+ * Explanation given when an explicitly requested backend is not available.
+ */
+const UNAVAILABLE_REASONS: Record<StorageBackend, string> = {
+  memory: "In-memory storage is not available",
+  opfs: 'The "opfs" storage requires OPFS and cross-origin isolation (COOP/COEP headers). Use "opfs-sahpool" or "auto" instead.',
+  "opfs-sahpool":
+    'The "opfs-sahpool" storage requires OPFS sync access handles (Chrome 108+, Safari 16.4+, Firefox 111+).',
+};
+
+/**
+ * Resolves the requested storage option to a backend the worker supports.
+ *
+ * @param promiser - Worker promiser function
+ * @param storage - Requested storage option
+ * @returns Promise resolving to the backend to open the database with
+ * @throws {WebSQLiteError} If the option is unknown or the requested backend is unavailable
+ */
+export const resolveStorageBackend = async (
+  promiser: WorkerPromiseFunction,
+  storage: StorageOption,
+): Promise<StorageBackend> => {
+  // 1. Validate the option
+  if (storage !== "auto" && !(storage in UNAVAILABLE_REASONS)) {
+    throw new WebSQLiteError(`Unknown storage backend: ${storage}`);
+  }
+
+  // 2. Ask the worker which backends it can use
+  let support: Record<StorageBackend, boolean>;
+  try {
+    support = await promiser("storage-support", {});
+  } catch (error) {
+    throw createWorkerError(error, "Storage detection");
+  }
+
+  // 3. Pick the best available backend, or confirm the requested one
+  if (storage === "auto") {
+    return AUTO_PREFERENCE.find((backend) => support[backend]) ?? "memory";
+  }
+  if (!support[storage]) {
+    throw new WebSQLiteError(UNAVAILABLE_REASONS[storage]);
+  }
+  return storage;
+};
@@ -0,0 +1,265 @@
+/**
+ * Query tracing for Web-SQLite.
+ * Reports every statement sent to SQLite with its timing, and ships ready-made console and performance tracers.
+ */
+
+import type {
+  ConsoleTracerOptions,
+  PerformanceTracerOptions,
+  QueryEndEvent,
+  QueryEvent,
+  QueryHooks,
+  WorkerPromiseFunction,
+} from "./types.js";
+import { analyzeSqlOperation } from "./exec.js";
+import { redactParameters } from "./parameters.js";
+
+/**
+ * Worker commands that run SQL, and so get traced.
+ */
+const TRACED_COMMANDS = new Set([
+  "exec",
+  "query-meta",
+  "execute-many",
+  "statement-all",
+  "statement-get",
+  "statement-run",
+  "cursor-open",
+]);
+
+/**
+ * Calls a hook, keeping its errors away from the query.
+ *
+ * @param hook - Hook to call, if set
+ * @param event - Event to report
+ */
+const callHook = <E>(hook: ((event: E) => void) | undefined, event: E) => {
+  try {
+    hook?.(event);
+  } catch (error) {
+    console.error("Query hook failed:", error);
+  }
+};
+
+/**
+ * Counts the rows and changes reported by a worker result, whichever command produced it.
+ *
+ * @param args - Request arguments
+ * @param result - Worker result
+ * @returns Row count and number of changes, null where the command reports none
+ */
+const describeOutcome = (
+  args: any,
+  result: any,
+): Pick<QueryEndEvent, "rowCount" | "changes"> => {
+  // exec returns rows only when asked to collect them
+  const rows = Array.isArray(args.resultRows)
+    ? result?.resultRows
+    : result?.rows;
+  const rowCount = Array.isArray(rows)
+    ? rows.length
+    : result && "row" in result
+      ? Number(result.row != null)
+      : null;
+  const changes = result?.changes ?? result?.changeCount;
+  return { rowCount, changes: typeof changes === "number" ? changes : null };
+};
+
+/**
+ * Wraps a promiser so the statements it sends are reported to the hooks.
+ *
+ * @param promiser - Worker promiser function
+ * @param hooks - onQuery and onQueryEnd hooks
+ * @param redact - Mask the bound values reported to the hooks
+ * @returns Promiser reporting its statements, or the promiser itself when no hook is set
+ */
+export const withTracing = (
+  promiser: WorkerPromiseFunction,
+  hooks: QueryHooks = {},
+  redact: boolean = false,
+): WorkerPromiseFunction => {
+  const { onQuery, onQueryEnd } = hooks;
+  if (!onQuery && !onQueryEnd) {
+    return promiser;
+  }
+  let querySeq = 0;
+
+  return async (type, args, options = {}) => {
+    if (!TRACED_COMMANDS.has(type) || typeof args?.sql !== "string") {
+      return promiser(type, args, options);
+    }
+
+    // 1. Report the statement as it leaves for the worker
+    const parameters = type === "execute-many" ? args.rows : args.bind;
+    const event: QueryEvent = {
+      id: ++querySeq,
+      command: type,
+      sql: args.sql,
+      parameters:
+        redact && parameters
+          ? type === "execute-many"
+            ? parameters.map(redactParameters)
+            : redactParameters(parameters)
+          : parameters,
+      operation: analyzeSqlOperation(args.sql),
+      startTime: performance.now(),
+    };
+    callHook(onQuery, event);
+
+    // 2. Run it, collecting the time the worker reports
+    let workerTime: number | null = null;
+    const report = (result: any, error?: Error) =>
+      callHook(onQueryEnd, {
+        ...event,
+        duration: performance.now() - event.startTime,
+        workerTime,
+        ...describeOutcome(args, result),
+        ...(error ? { error } : {}),
+      });
+    try {
+      const result = await promiser(type, args, {
+        ...options,
+        onWorkerTime: (milliseconds) => {
+          workerTime = milliseconds;
+          options.onWorkerTime?.(milliseconds);
+        },
+      });
+      report(result);
+      return result;
+    } catch (error) {
+      report(null, error as Error);
+      throw error;
+    }
+  };
+};
+
+/**
+ * Shortens SQL for display: whitespace collapsed, long statements truncated.
+ *
+ * @param sql - SQL text
+ * @param maxLength - Longest text kept
+ * @returns Display text
+ */
+const summarizeSql = (sql: string, maxLength: number = 100): string => {
+  const compact = sql.replace(/\s+/g, " ").trim();
+  return compact.length > maxLength
+    ? `${compact.slice(0, maxLength - 1)}…`
+    : compact;
+};
+
+/**
+ * Formats a count with its noun.
+ *
+ * @param count - Count
+ * @param noun - Singular noun
+ * @returns e.g. "1 row" or "3 rows"
+ */
+const plural = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Creates hooks logging every statement to the console: failures as errors, slow statements as warnings.
+ *
+ * @param options - Slow threshold, parameter logging and target console
+ * @returns Hooks to pass to webSqlite()
+ *
+ * @example
+ * ```typescript
+ * const db = await webSqlite('app.sqlite3', createConsoleTracer({ slowThreshold: 50 }));
+ * // [web-sqlite] select 3.2ms (worker 1.1ms, 12 rows) SELECT * FROM users WHERE team = ?
+ * ```
+ */
+export const createConsoleTracer = (
+  options: ConsoleTracerOptions = {},
+): QueryHooks => {
+  const {
+    slowThreshold = 100,
+    parameters: logParameters = true,
+    console: target = console,
+  } = options;
+
+  return {
+    onQueryEnd: (event) => {
+      // 1. Describe timing and outcome
+      const details = [
+        event.workerTime === null
+          ? null
+          : `worker ${event.workerTime.toFixed(1)}ms`,
+        event.rowCount === null ? null : plural(event.rowCount, "row"),
+        event.changes === null ? null : plural(event.changes, "change"),
+      ].filter(Boolean);
+      const message = `[web-sqlite] ${event.operation} ${event.duration.toFixed(1)}ms${
+        details.length ? ` (${details.join(", ")})` : ""
+      } ${summarizeSql(event.sql)}`;
+      const extra = logParameters && event.parameters ? [event.parameters] : [];
+
+      // 2. Pick the level
+      if (event.error) {
+        target.error(message, ...extra, event.error);
+      } else if (event.duration >= slowThreshold) {
+        target.warn(message, ...extra);
+      } else {
+        target.debug(message, ...extra);
+      }
+    },
+  };
+};
+
+/**
+ * Creates hooks recording every statement on the performance timeline:
+ * a mark when it is sent and a measure spanning its round trip, visible in the browser's performance panel.
+ *
+ * @param options - Name prefix
+ * @returns Hooks to pass to webSqlite()
+ *
+ * @example
+ * ```typescript
+ * const db = await webSqlite('app.sqlite3', createPerformanceTracer());
+ * const measures = performance.getEntriesByType('measure').filter((m) => m.name.startsWith('web-sqlite'));
+ * ```
+ */
+export const createPerformanceTracer = (
+  options: PerformanceTracerOptions = {},
+): QueryHooks => {
+  const { prefix = "web-sqlite" } = options;
+  const markName = (event: QueryEvent) => `${prefix}:${event.id}`;
+
+  return {
+    onQuery: (event) => {
+      performance.mark(markName(event), { startTime: event.startTime });
+    },
+
+    onQueryEnd: (event) => {
+      performance.measure(`${prefix} ${summarizeSql(event.sql)}`, {
+        start: markName(event),
+        duration: event.duration,
+        detail: {
+          sql: event.sql,
+          operation: event.operation,
+          workerTime: event.workerTime,
+          rowCount: event.rowCount,
+          changes: event.changes,
+          error: event.error?.message,
+        },
+      });
+      performance.clearMarks(markName(event));
+    },
+  };
+};
+
+/**
+ * Combines several hook sets into one, e.g. a console tracer and a performance tracer.
+ *
+ * @param hookSets - Hook sets to call, in order
+ * @returns Hooks calling every set
+ */
+export const combineQueryHooks = (
+  ...hookSets: ReadonlyArray<QueryHooks>
+): QueryHooks => ({
+  onQuery: (event) => {
+    for (const hooks of hookSets) callHook(hooks.onQuery, event);
+  },
+  onQueryEnd: (event) => {
+    for (const hooks of hookSets) callHook(hooks.onQueryEnd, event);
+  },
+});
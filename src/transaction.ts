@@ -0,0 +1,357 @@
+/**
+ * Transaction functionality for Web-SQLite.
+ * Supports static statement lists and interactive callbacks with nested savepoints.
+ */
+
+import type {
+  CallOptions,
+  Database,
+  WorkerPromiseFunction,
+  Transaction,
+  TransactionCallback,
+  TransactionMode,
+  TransactionOptions,
+  TransactionStatement,
+} from "./types.js";
+import { createWorkerError, WorkerCrashedError } from "./errors.js";
+import { resolveSqlInput } from "./sql.js";
+import type { ConnectionScheduler } from "./scheduler.js";
+import { classifySql } from "./classifier.js";
+import {
+  analyzeSqlOperation,
+  executeWorkerRequest,
+  toModificationResult,
+  createQueryFunction,
+  createQueryOneFunction,
+  createQueryWithMetaFunction,
+  createExecuteFunction,
+  createExecuteReturningFunction,
+  createExecuteManyFunction,
+  createRunFunction,
+} from "./exec.js";
+import {
+  createPrepareFunction,
+  finalizeAllStatements,
+  type StatementRegistry,
+} from "./statement.js";
+
+/**
+ * SQL used to open, commit and roll back one transaction scope.
+ */
+interface TransactionScope {
+  begin: string;
+  commit: string[];
+  rollback: string[];
+}
+
+/**
+ * BEGIN statement for each transaction mode.
+ */
+const BEGIN_STATEMENTS: Record<TransactionMode, string> = {
+  deferred: "BEGIN DEFERRED TRANSACTION",
+  immediate: "BEGIN IMMEDIATE TRANSACTION",
+  exclusive: "BEGIN EXCLUSIVE TRANSACTION",
+};
+
+/**
+ * Builds the top-level scope for the requested transaction mode.
+ *
+ * @param options - Transaction options
+ * @returns Scope using BEGIN/COMMIT/ROLLBACK
+ */
+const createRootScope = (options: TransactionOptions): TransactionScope => {
+  const mode = options.mode ?? "deferred";
+  if (!(mode in BEGIN_STATEMENTS)) {
+    throw createWorkerError(
+      new Error(`Unknown transaction mode: ${mode}`),
+      "Transaction validation",
+    );
+  }
+
+  return {
+    begin: BEGIN_STATEMENTS[mode],
+    commit: ["COMMIT"],
+    rollback: ["ROLLBACK"],
+  };
+};
+
+/**
+ * Builds a nested scope backed by a named savepoint.
+ * ROLLBACK TO keeps the savepoint on the stack, so it is released afterwards.
+ *
+ * @param name - Savepoint name
+ * @returns Scope using SAVEPOINT/RELEASE/ROLLBACK TO
+ */
+const createSavepointScope = (name: string): TransactionScope => ({
+  begin: `SAVEPOINT ${name}`,
+  commit: [`RELEASE SAVEPOINT ${name}`],
+  rollback: [`ROLLBACK TO SAVEPOINT ${name}`, `RELEASE SAVEPOINT ${name}`],
+});
+
+/**
+ * Applies transaction-wide call options to every request that does not set its own.
+ *
+ * @param promiser - Worker promiser function
+ * @param defaults - Timeout and abort signal of the transaction
+ * @returns Promiser applying the defaults
+ */
+const withCallOptions = (
+  promiser: WorkerPromiseFunction,
+  defaults: CallOptions,
+): WorkerPromiseFunction => {
+  return (type, args, options) =>
+    promiser(type, args, { ...defaults, ...options });
+};
+
+/**
+ * Runs the body inside a transaction scope, committing on success and rolling back on error.
+ *
+ * @param promiser - Worker promiser function
+ * @param scope - SQL for the scope boundaries
+ * @param body - Work to run inside the scope
+ * @returns Promise resolving to the body's result
+ */
+const runInScope = async <R>(
+  promiser: WorkerPromiseFunction,
+  scope: TransactionScope,
+  body: () => Promise<R>,
+): Promise<R> => {
+  // 1. Open the scope
+  await executeWorkerRequest(promiser, scope.begin, undefined, false);
+
+  try {
+    // 2. Run the body and commit, rolling back if either fails
+    const result = await body();
+    for (const sql of scope.commit) {
+      await executeWorkerRequest(promiser, sql, undefined, false);
+    }
+
+    // 3. Return the body's result
+    return result;
+  } catch (error) {
+    // Rollback on error; it must run even when an aborted signal failed the body
+    try {
+      for (const sql of scope.rollback) {
+        await executeWorkerRequest(promiser, sql, undefined, false, {
+          signal: undefined,
+        });
+      }
+    } catch (rollbackError) {
+      // Log rollback error but throw original error; a crashed worker took the transaction with it
+      if (!(rollbackError instanceof WorkerCrashedError)) {
+        console.error("Failed to rollback transaction:", rollbackError);
+      }
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Creates the transaction handle passed to interactive transaction callbacks.
+ * The callback code resuming after each of its methods counts as the transaction's own,
+ * so calls it makes on the database instead of tx fail right away.
+ *
+ * @param promiser - Worker promiser function
+ * @param scheduler - Connection scheduler the transaction owns
+ * @param depth - Nesting depth, used to keep savepoint names unique
+ * @param statements - Statements prepared by the transaction, finalized when it ends
+ * @returns Transaction handle
+ */
+const createTransactionContext = (
+  promiser: WorkerPromiseFunction,
+  scheduler: ConnectionScheduler,
+  depth: number,
+  statements: StatementRegistry,
+): Transaction => {
+  let savepointSeq = 0;
+
+  // Each method hands its promise to the scheduler, which then knows when the callback resumes
+  const follow = <M extends (...args: any[]) => Promise<any>>(method: M): M =>
+    ((...args) => scheduler.followOwner(method(...args))) as M;
+
+  return {
+    query: follow(createQueryFunction(promiser)),
+    queryOne: follow(createQueryOneFunction(promiser)),
+    queryWithMeta: follow(createQueryWithMetaFunction(promiser)),
+    execute: follow(createExecuteFunction(promiser)),
+    executeReturning: follow(createExecuteReturningFunction(promiser)),
+    executeMany: follow(createExecuteManyFunction(promiser)),
+    run: follow(createRunFunction(promiser)),
+    prepare: follow(createPrepareFunction(promiser, statements)),
+
+    transaction: follow(<R>(callback: TransactionCallback<R>): Promise<R> => {
+      const name = `web_sqlite_sp_${depth}_${++savepointSeq}`;
+      const nested = createTransactionContext(
+        promiser,
+        scheduler,
+        depth + 1,
+        statements,
+      );
+      return runInScope(promiser, createSavepointScope(name), () =>
+        scheduler.runAsOwner(() => callback(nested)),
+      );
+    }),
+  };
+};
+
+/**
+ * Executes one statement of a static transaction.
+ *
+ * @param promiser - Worker promiser function
+ * @param statement - Statement to execute
+ * @returns Result matching the statement type
+ */
+const runTransactionStatement = async (
+  promiser: WorkerPromiseFunction,
+  statement: TransactionStatement,
+): Promise<unknown> => {
+  const { sql, parameters } = resolveSqlInput(
+    statement.sql,
+    statement.parameters,
+  );
+  const type = statement.type;
+  const opType = type || detectOperationType(sql);
+
+  switch (opType) {
+    case "query":
+      const queryResult = await executeWorkerRequest(
+        promiser,
+        sql,
+        parameters,
+        true,
+      );
+      return Array.isArray(queryResult.resultRows)
+        ? queryResult.resultRows
+        : [];
+
+    case "execute":
+      const execResult = await executeWorkerRequest(
+        promiser,
+        sql,
+        parameters,
+        false,
+        {},
+        true,
+      );
+      return toModificationResult(execResult, analyzeSqlOperation(sql));
+
+    case "returning":
+      const returningResult = await executeWorkerRequest(
+        promiser,
+        sql,
+        parameters,
+        true,
+        {},
+        true,
+      );
+      return {
+        ...toModificationResult(returningResult, analyzeSqlOperation(sql)),
+        rows: Array.isArray(returningResult.resultRows)
+          ? returningResult.resultRows
+          : [],
+      };
+
+    case "run":
+    default:
+      await executeWorkerRequest(promiser, sql, parameters, false);
+      return undefined;
+  }
+};
+
+/**
+ * Creates a transaction function for atomic multi-statement operations.
+ * Accepts either a static list of statements or an interactive callback.
+ * The transaction owns the connection while it runs, so concurrent calls wait instead of joining it.
+ *
+ * @param scheduler - Connection scheduler granting exclusive ownership
+ * @returns Function to execute statements or a callback atomically
+ */
+export const createTransactionFunction = (
+  scheduler: ConnectionScheduler,
+): Database["transaction"] => {
+  const transaction = async (
+    input: TransactionStatement[] | TransactionCallback<unknown>,
+    options: TransactionOptions = {},
+  ): Promise<unknown> => {
+    // 1. Interactive callback: errors from the callback propagate unchanged
+    const scope = createRootScope(options);
+    const { timeout, signal } = options;
+    if (typeof input === "function") {
+      return scheduler.runExclusive(async (ownerPromiser) => {
+        const promiser = withCallOptions(ownerPromiser, { timeout, signal });
+        const statements: StatementRegistry = new Map();
+        try {
+          const context = createTransactionContext(
+            promiser,
+            scheduler,
+            0,
+            statements,
+          );
+          return await runInScope(promiser, scope, () =>
+            scheduler.runAsOwner(() => input(context)),
+          );
+        } finally {
+          // Statements prepared with tx only work while the transaction owns the connection
+          await finalizeAllStatements(statements).catch(() => undefined);
+        }
+      });
+    }
+
+    // 2. Static statement list
+    if (!Array.isArray(input) || input.length === 0) {
+      throw createWorkerError(
+        new Error("Transaction requires at least one statement"),
+        "Transaction validation",
+      );
+    }
+
+    try {
+      // 3. Execute each statement and return their results
+      return await scheduler.runExclusive((ownerPromiser) => {
+        const promiser = withCallOptions(ownerPromiser, { timeout, signal });
+        return runInScope(promiser, scope, async () => {
+          const results: Array<unknown> = [];
+          for (const statement of input) {
+            results.push(await runTransactionStatement(promiser, statement));
+          }
+          return results;
+        });
+      });
+    } catch (error) {
+      throw createWorkerError(error, "Transaction execution");
+    }
+  };
+
+  return transaction as Database["transaction"];
+};
+
+/**
+ * Detects operation type from SQL statement for transaction handling.
+ * Modifications with a RETURNING clause report their rows and changes; scripts are run.
+ *
+ * @param sql - SQL statement to analyze
+ * @returns Operation type for transaction handling
+ */
+const detectOperationType = (
+  sql: string,
+): NonNullable<TransactionStatement["type"]> => {
+  const statements = classifySql(sql);
+  if (statements.length !== 1) {
+    return "run";
+  }
+
+  if (statements[0].returning) {
+    return "returning";
+  }
+
+  if (statements[0].returnsRows) {
+    return "query";
+  }
+
+  if (["insert", "update", "delete"].includes(statements[0].operation)) {
+    return "execute";
+  }
+
+  return "run";
+};
@@ -14,7 +14,38 @@ export type SqlValue =
   | null
   | Uint8Array
   | ArrayBufferView
-  | Date;
+  | Date
+  | object;
+
+/**
+ * Value as SQLite stores it, before codecs decode it.
+ */
+export type SqlStoredValue = string | number | bigint | Uint8Array | null;
+
+/**
+ * Converts values between their JS form and the form SQLite stores.
+ */
+export interface ValueCodec<T = any> {
+  /** Selects the bound values encode() handles */
+  accepts?(value: unknown): boolean;
+  /** Converts a bound JS value into a storable one */
+  encode?(value: T): SqlValue;
+  /** Converts a stored, non-null value into its JS form */
+  decode?(value: SqlStoredValue): T;
+}
+
+/**
+ * How values are encoded on bind and decoded on read.
+ * Without codecs, Dates bind as ISO text, plain objects and arrays as JSON text, and rows come back as stored.
+ */
+export interface CodecOptions {
+  /** Decoders for result columns by declared type, e.g. { DATETIME: codecs.date } (case-insensitive) */
+  types?: Readonly<Record<string, ValueCodec>>;
+  /** Decoders for result columns by name; they take precedence over declared types ({} turns decoding off) */
+  columns?: Readonly<Record<string, ValueCodec>>;
+  /** Encoders tried in order on every bound value, before the built-in conversions */
+  encoders?: ReadonlyArray<ValueCodec>;
+}
 
 /**
  * Structure of the bind parameters accepted by Database methods.
@@ -24,6 +55,51 @@ export type SqlParameters =
   | ReadonlyArray<SqlValue>
   | Readonly<Record<string, SqlValue>>;
 
+/**
+ * SQL text with its bound values, built by the sql`...` tagged template.
+ * Pass it wherever a SQL string is accepted, without separate parameters.
+ */
+export interface SqlFragment {
+  /** SQL text with positional placeholders */
+  readonly sql: string;
+  /** Values bound to the placeholders, in order */
+  readonly parameters: ReadonlyArray<SqlValue>;
+}
+
+/**
+ * SQL accepted by Database methods: a plain string or a sql`...` fragment.
+ */
+export type SqlInput = string | SqlFragment;
+
+/**
+ * Kind of SQL statement, as classified by the library.
+ */
+export type SqlOperationType =
+  | "select"
+  | "insert"
+  | "update"
+  | "delete"
+  | "ddl"
+  | "utility";
+
+/**
+ * What one SQL statement does, as told by classifySql().
+ */
+export interface SqlStatementInfo {
+  /** Statement text, without surrounding comments and the closing semicolon */
+  sql: string;
+  /** Keyword deciding the kind of statement, e.g. "SELECT" for WITH ... SELECT, or "EXPLAIN" */
+  keyword: string;
+  /** Kind of statement; INSERT and REPLACE (including upserts) are "insert", PRAGMA and EXPLAIN "utility" */
+  operation: SqlOperationType;
+  /** Produces result rows: SELECT, VALUES, PRAGMA, EXPLAIN, and modifications with RETURNING */
+  returnsRows: boolean;
+  /** Modification with a RETURNING clause */
+  returning: boolean;
+  /** Offset of the statement in the classified SQL text */
+  start: number;
+}
+
 /**
  * Result of data modification operations (INSERT, UPDATE, DELETE).
  */
@@ -34,16 +110,667 @@ export interface ModificationResult {
   lastInsertRowid: number | null;
 }
 
+/**
+ * Result of Database.executeReturning(): the modification result plus the rows of its RETURNING clause.
+ */
+export interface ReturningResult<
+  T = Record<string, unknown>,
+> extends ModificationResult {
+  /** Rows produced by the RETURNING clause, one per affected row */
+  rows: T[];
+}
+
+/**
+ * Per-call limits accepted by Database methods.
+ */
+export interface CallOptions {
+  /** Milliseconds before the call is interrupted (defaults to the webSqlite() timeout; 0 disables it) */
+  timeout?: number;
+  /** Signal that cancels the call when aborted */
+  signal?: AbortSignal;
+  /** Codecs for this call, merged over the ones given when opening the database */
+  codecs?: CodecOptions;
+}
+
+/**
+ * Result of Database.executeMany().
+ */
+export interface BulkModificationResult {
+  /** Total number of rows affected by all parameter sets */
+  changes: number;
+  /** Row ID inserted by each parameter set, in order (INSERT only; null for UPDATE/DELETE and rows that inserted nothing) */
+  lastInsertRowids: Array<number | null>;
+}
+
+/**
+ * Options for Database.executeMany().
+ */
+export interface ExecuteManyOptions extends CallOptions {
+  /** Run the whole batch atomically (defaults to true) */
+  transaction?: boolean;
+}
+
 /**
  * Configuration for individual statements in a transaction.
  */
 export interface TransactionStatement {
-  /** SQL statement to execute */
-  sql: string;
+  /** SQL statement to execute, or a sql`...` fragment */
+  sql: SqlInput;
   /** Optional bind parameters */
   parameters?: SqlParameters;
-  /** Type of operation - determines return value handling */
-  type?: "query" | "execute" | "run";
+  /** Type of operation - determines return value handling; "returning" yields a ReturningResult */
+  type?: "query" | "execute" | "returning" | "run";
+}
+
+/**
+ * Locking behaviour of a top-level transaction, as in BEGIN DEFERRED/IMMEDIATE/EXCLUSIVE.
+ */
+export type TransactionMode = "deferred" | "immediate" | "exclusive";
+
+/**
+ * Options for Database.transaction().
+ * The timeout and signal apply to each statement the transaction runs.
+ */
+export interface TransactionOptions extends CallOptions {
+  /** Locking mode of the BEGIN statement (defaults to "deferred") */
+  mode?: TransactionMode;
+}
+
+/**
+ * Options for Database.exec().
+ */
+export interface ExecScriptOptions extends TransactionOptions {
+  /** Run the whole script in one transaction, rolled back when a statement fails (defaults to true) */
+  transaction?: boolean;
+}
+
+/**
+ * Outcome of one statement of a script run by Database.exec().
+ */
+export interface ScriptStatementResult {
+  /** Zero-based position of the statement in the script */
+  index: number;
+  /** Statement text */
+  sql: string;
+  /** Kind of statement */
+  operation: SqlOperationType;
+  /** Number of rows changed, 0 for statements that change none */
+  changes: number;
+  /** Rows the statement returned (SELECT, PRAGMA, RETURNING, ...), empty otherwise */
+  rows: Record<string, unknown>[];
+  /** Milliseconds the statement took, round trip included */
+  duration: number;
+}
+
+/**
+ * Report of a script run by Database.exec().
+ */
+export interface ScriptResult {
+  /** One entry per statement, in script order */
+  statements: ScriptStatementResult[];
+  /** Total number of rows changed by the script */
+  changes: number;
+  /** Milliseconds the whole script took */
+  duration: number;
+}
+
+/**
+ * Where a failing statement sits in a script, attached to the error raised by Database.exec().
+ */
+export interface ScriptLocation {
+  /** Zero-based position of the statement in the script */
+  statementIndex: number;
+  /** Offset of the statement in the script text */
+  offset: number;
+  /** One-based line the statement starts on */
+  line: number;
+  /** One-based column the statement starts at */
+  column: number;
+}
+
+/**
+ * Handle passed to interactive transaction callbacks.
+ * Every call made through it runs inside the transaction.
+ */
+export interface Transaction extends Pick<
+  Database,
+  | "query"
+  | "queryOne"
+  | "queryWithMeta"
+  | "execute"
+  | "executeReturning"
+  | "executeMany"
+  | "run"
+  | "prepare"
+> {
+  /**
+   * Run a nested transaction backed by a SAVEPOINT.
+   * It is released when the callback resolves and rolled back to when it throws,
+   * without ending the outer transaction.
+   *
+   * @param callback - Work to run inside the savepoint
+   * @returns Promise resolving to the callback's result
+   */
+  transaction<R>(callback: TransactionCallback<R>): Promise<R>;
+}
+
+/**
+ * Callback executed inside an interactive transaction.
+ * It must run its SQL through tx: the database itself waits until the transaction has finished.
+ */
+export type TransactionCallback<R> = (tx: Transaction) => Promise<R>;
+
+/**
+ * Callback receiving the latest rows of a live query.
+ */
+export type WatchCallback<T> = (rows: T[]) => void;
+
+/**
+ * Options for Database.watch().
+ */
+export interface WatchOptions {
+  /** Called when re-running the query fails (defaults to console.error) */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A versioned schema upgrade step.
+ */
+export interface Migration {
+  /** Schema version this step upgrades to; positive and strictly ascending across the list */
+  version: number;
+  /** Optional human-readable label, echoed back in the migration result */
+  name?: string;
+  /** SQL script to run, or a function receiving the migration transaction */
+  up: string | ((tx: Transaction) => Promise<void>);
+}
+
+/**
+ * Report of a Database.migrate() run.
+ */
+export interface MigrationResult {
+  /** Schema version before the run */
+  fromVersion: number;
+  /** Schema version after the run */
+  toVersion: number;
+  /** Migrations applied by this run, in order */
+  applied: Array<{ version: number; name?: string }>;
+}
+
+/**
+ * Storage backend (SQLite VFS) a database lives on.
+ * - "memory": in-memory database, discarded on close
+ * - "opfs": OPFS VFS; requires cross-origin isolation (COOP/COEP headers)
+ * - "opfs-sahpool": OPFS SyncAccessHandle pool VFS; needs no special headers but allows one connection per file
+ */
+export type StorageBackend = "memory" | "opfs" | "opfs-sahpool";
+
+/**
+ * Storage backends that persist to a file in OPFS.
+ */
+export type PersistentStorageBackend = Exclude<StorageBackend, "memory">;
+
+/**
+ * Requested storage: a specific backend, or "auto" to pick the best available one
+ * (opfs, then opfs-sahpool, then memory).
+ */
+export type StorageOption = StorageBackend | "auto";
+
+/**
+ * Health of the connection to the database worker.
+ * - "open": ready for calls
+ * - "crashed": the worker died; calls fail with WorkerCrashedError
+ * - "reconnecting": a new worker is reopening the database; calls wait for it
+ * - "closed": close() finished; calls fail with DatabaseClosedError
+ */
+export type DatabaseState = "open" | "crashed" | "reconnecting" | "closed";
+
+/**
+ * Listener for connection state changes.
+ */
+export type StateChangeListener = (state: DatabaseState, error?: Error) => void;
+
+/**
+ * Lifecycle events of a database and the listeners they call.
+ */
+export interface DatabaseEventMap {
+  /** The database was reopened after a worker crash */
+  open: () => void;
+  /** The database was closed and its worker terminated */
+  close: () => void;
+  /** The worker crashed, or reopening the database after a crash failed */
+  error: (error: Error) => void;
+}
+
+/**
+ * Statement sent to SQLite, reported by the onQuery hook.
+ */
+export interface QueryEvent {
+  /** Identifies the request; its QueryEndEvent carries the same id */
+  id: number;
+  /** Worker command carrying the statement, e.g. "exec" or "statement-run" */
+  command: string;
+  /** SQL text */
+  sql: string;
+  /** Bound values as sent to SQLite (after codecs), one set per row for executeMany(); masked when redactErrorParameters is set */
+  parameters: unknown;
+  /** Kind of statement */
+  operation: SqlOperationType;
+  /** When the request was sent, from performance.now() */
+  startTime: number;
+}
+
+/**
+ * Outcome of a statement, reported by the onQueryEnd hook.
+ */
+export interface QueryEndEvent extends QueryEvent {
+  /** Milliseconds from sending the request to receiving its answer */
+  duration: number;
+  /** Milliseconds the worker spent on the request, or null when it did not answer */
+  workerTime: number | null;
+  /** Number of rows returned, or null for commands that return none */
+  rowCount: number | null;
+  /** Number of rows changed, or null when the command does not report it */
+  changes: number | null;
+  /** Error the statement failed with */
+  error?: Error;
+}
+
+/**
+ * Hooks observing the statements a database sends to SQLite.
+ * Hooks run synchronously; errors they throw are logged and do not affect the query.
+ */
+export interface QueryHooks {
+  /** Called right before a statement is sent to the worker */
+  onQuery?: (event: QueryEvent) => void;
+  /** Called once the statement has succeeded or failed */
+  onQueryEnd?: (event: QueryEndEvent) => void;
+}
+
+/**
+ * Options for createConsoleTracer().
+ */
+export interface ConsoleTracerOptions {
+  /** Log statements taking at least this many milliseconds as warnings (defaults to 100) */
+  slowThreshold?: number;
+  /** Log bound values along with the SQL (defaults to true) */
+  parameters?: boolean;
+  /** Console to write to (defaults to the global console) */
+  console?: Pick<Console, "debug" | "warn" | "error">;
+}
+
+/**
+ * Options for createPerformanceTracer().
+ */
+export interface PerformanceTracerOptions {
+  /** Prefix of the mark and measure names (defaults to "web-sqlite") */
+  prefix?: string;
+}
+
+/**
+ * Step of a query plan, as reported by EXPLAIN QUERY PLAN.
+ */
+export interface QueryPlanNode {
+  /** Id of the step */
+  id: number;
+  /** Id of the enclosing step, 0 for top-level steps */
+  parent: number;
+  /** SQLite's description, e.g. "SEARCH users USING INDEX idx_users_email (email=?)" */
+  detail: string;
+  /** Steps nested in this one */
+  children: QueryPlanNode[];
+}
+
+/**
+ * Costly step found in a query plan.
+ */
+export interface QueryPlanIssue {
+  /** Full table scan, temporary B-tree for sorting/grouping/DISTINCT, or correlated subquery */
+  kind: "full-scan" | "temp-b-tree" | "correlated-subquery";
+  /** Detail of the plan step */
+  detail: string;
+  /** Scanned table (full scans only) */
+  table?: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Analyzed query plan returned by Database.explain().
+ */
+export interface QueryPlan {
+  /** Explained statement */
+  sql: string;
+  /** Top-level plan steps */
+  nodes: QueryPlanNode[];
+  /** Costly steps of the plan */
+  issues: QueryPlanIssue[];
+  /** Candidate CREATE INDEX statements, guessed from the columns the statement filters and orders by */
+  suggestedIndexes: string[];
+}
+
+/**
+ * Options for the diagnostic mode of webSqlite().
+ */
+export interface DiagnosticsOptions {
+  /** Receives each plan with issues (defaults to a console warning) */
+  report?: (plan: QueryPlan) => void;
+}
+
+/**
+ * Options for opening a database with webSqlite().
+ */
+export interface WebSQLiteOptions extends QueryHooks {
+  /** Storage backend to open the database on (defaults to "opfs") */
+  storage?: StorageOption;
+  /** Migrations applied right after the database is opened */
+  migrations?: ReadonlyArray<Migration>;
+  /** Default per-call timeout in milliseconds (defaults to 30000; 0 disables it) */
+  timeout?: number;
+  /** Mask the bound values attached to errors and reported to query hooks, e.g. when they are sent to a logging service (defaults to false) */
+  redactErrorParameters?: boolean;
+  /** Start a new worker and reopen the database when the worker crashes (defaults to false) */
+  reconnect?: boolean;
+  /** How values are encoded on bind and decoded on read */
+  codecs?: CodecOptions;
+  /** URLs of plugin modules loaded into the worker, whose commands Database.call() runs */
+  plugins?: ReadonlyArray<string | URL>;
+  /** Explain each distinct query()/queryOne() statement once and report costly plans (defaults to false) */
+  diagnostics?: boolean | DiagnosticsOptions;
+}
+
+/**
+ * Settings of a connection manager; they apply to every database it opens.
+ */
+export type ConnectionManagerOptions = Pick<
+  WebSQLiteOptions,
+  "timeout" | "redactErrorParameters" | "reconnect" | "plugins"
+>;
+
+/**
+ * Options for ConnectionManager.open().
+ */
+export type ManagedDatabaseOptions = Pick<
+  WebSQLiteOptions,
+  "storage" | "migrations" | "codecs" | "onQuery" | "onQueryEnd" | "diagnostics"
+>;
+
+/**
+ * Options for Database.attach().
+ */
+export interface AttachOptions extends CallOptions {
+  /** Storage backend of the attached file (defaults to the database's own) */
+  storage?: StorageBackend;
+}
+
+/**
+ * Scalar SQL function. Runs inside the worker, so it must be self-contained: closures are not captured.
+ */
+export type SqlFunction = (
+  ...args: SqlStoredValue[]
+) => SqlStoredValue | boolean;
+
+/**
+ * Reference to a function exported by an ES module, for implementations that need imports or shared code.
+ */
+export interface SqlFunctionModule {
+  /** Module URL, resolved against the page URL */
+  module: string;
+  /** Export name (defaults to "default") */
+  export?: string;
+}
+
+/**
+ * Implementation of a scalar SQL function: a self-contained function or a module export.
+ */
+export type SqlFunctionImplementation = SqlFunction | SqlFunctionModule;
+
+/**
+ * Aggregate SQL function, run inside the worker like SqlFunction.
+ * The state starts as start() (or null), goes through step() for each row and is turned into the result by final().
+ */
+export interface AggregateDefinition<S = any> {
+  /** Returns the initial state of each group (defaults to null) */
+  start?(): S;
+  /** Returns the state after one more row */
+  step(state: S, ...args: SqlStoredValue[]): S;
+  /** Returns the result of the group (defaults to the state itself) */
+  final?(state: S): SqlStoredValue | boolean;
+}
+
+/**
+ * Options for Database.createFunction() and Database.createAggregate().
+ */
+export interface FunctionOptions extends CallOptions {
+  /** Number of arguments, or -1 for any number (defaults to -1) */
+  arity?: number;
+  /** Same arguments always give the same result, which lets SQLite optimize and index it (defaults to false) */
+  deterministic?: boolean;
+  /** Only usable from top-level SQL, not from triggers, views or schema expressions (defaults to false) */
+  directOnly?: boolean;
+}
+
+/**
+ * Commands added by worker plugins, keyed by name, with the types of their arguments and results.
+ * Plugins declare their commands by augmenting this interface.
+ *
+ * @example
+ * ```typescript
+ * declare module '@wuchuheng/web-sqlite' {
+ *   interface PluginCommands {
+ *     monthlyReport: { args: { month: string }; result: { total: number } };
+ *   }
+ * }
+ * ```
+ */
+export interface PluginCommands {}
+
+/**
+ * Arguments of a plugin command.
+ */
+export type PluginCommandArgs<K extends keyof PluginCommands> =
+  PluginCommands[K] extends { args: infer A } ? A : undefined;
+
+/**
+ * Result of a plugin command.
+ */
+export type PluginCommandResult<K extends keyof PluginCommands> =
+  PluginCommands[K] extends { result: infer R } ? R : unknown;
+
+/**
+ * What a plugin command can use inside the worker.
+ */
+export interface WorkerPluginContext {
+  /** Initialized sqlite3 WebAssembly module */
+  sqlite3: any;
+  /** The calling database, as an sqlite3.oo1.DB */
+  db: any;
+}
+
+/**
+ * Default export of a plugin module.
+ * Arguments and results cross the worker boundary, so they must be structured-cloneable.
+ */
+export interface WorkerPlugin {
+  /** Command handlers by name */
+  commands: Record<
+    string,
+    (args: any, context: WorkerPluginContext) => unknown
+  >;
+}
+
+/**
+ * Derives PluginCommands entries from a plugin's handlers.
+ *
+ * @example
+ * ```typescript
+ * import type reports from './plugins/reports.js';
+ * declare module '@wuchuheng/web-sqlite' {
+ *   interface PluginCommands extends PluginCommandsOf<typeof reports> {}
+ * }
+ * ```
+ */
+export type PluginCommandsOf<P extends WorkerPlugin> = {
+  [K in keyof P["commands"]]: {
+    args: Parameters<P["commands"][K]>[0];
+    result: Awaited<ReturnType<P["commands"][K]>>;
+  };
+};
+
+/**
+ * Options for webSqlite.import().
+ */
+export interface ImportOptions {
+  /** Replace an existing file with the same name (defaults to false) */
+  overwrite?: boolean;
+  /** OPFS backend the database will be opened with (defaults to "opfs") */
+  storage?: PersistentStorageBackend;
+}
+
+/**
+ * Options for webSqlite.restore().
+ */
+export interface RestoreOptions {
+  /** OPFS backend both files are opened with (defaults to "opfs") */
+  storage?: PersistentStorageBackend;
+}
+
+/**
+ * Progress of a backup, reported after every step.
+ */
+export interface BackupProgress {
+  /** Pages copied so far in the current pass */
+  copiedPages: number;
+  /** Pages in the database */
+  totalPages: number;
+  /** Times the copy started over because the database changed in between */
+  restarts: number;
+}
+
+/**
+ * Options for Database.backup().
+ */
+export interface BackupOptions extends CallOptions {
+  /** Pages copied per step; other calls run between steps (defaults to 100) */
+  pagesPerStep?: number;
+  /** Called after every step */
+  onProgress?: (progress: BackupProgress) => void;
+  /** OPFS backend the target file is written with (defaults to the database's own, "opfs" for in-memory databases) */
+  storage?: PersistentStorageBackend;
+}
+
+/**
+ * Result of Database.backup().
+ */
+export interface BackupResult {
+  /** Target filename */
+  filename: string;
+  /** OPFS backend the target file was written with */
+  storage: PersistentStorageBackend;
+  /** Pages in the copy */
+  totalPages: number;
+  /** Times the copy started over because the database changed in between */
+  restarts: number;
+}
+
+/**
+ * Options for streaming query results with Database.iterate().
+ */
+export interface IterateOptions extends CallOptions {
+  /** Number of rows fetched from the worker per round trip (defaults to 100) */
+  batchSize?: number;
+}
+
+/**
+ * Shape of each row returned by Database.queryWithMeta().
+ * "array" keeps every column, including duplicate names from joins.
+ */
+export type QueryRowMode = "object" | "array";
+
+/**
+ * Options for Database.queryWithMeta().
+ */
+export interface QueryWithMetaOptions extends CallOptions {
+  /** Row shape (defaults to "object") */
+  rowMode?: QueryRowMode;
+}
+
+/**
+ * Description of one result column.
+ * It has no source table or column: the bundled SQLite build is compiled without column metadata, so it cannot report them.
+ */
+export interface ColumnMetadata {
+  /** Column name as reported by SQLite (alias if one is given) */
+  name: string;
+  /** Declared type of the source column, or null for expressions */
+  declaredType: string | null;
+}
+
+/**
+ * Rows of a query together with its column descriptions.
+ */
+export interface QueryResultWithMeta<T> {
+  /** Result columns in query order, present even when no rows match */
+  columns: ColumnMetadata[];
+  /** Result rows */
+  rows: T[];
+}
+
+/**
+ * A statement compiled once and kept alive inside the worker.
+ * Reuse it to skip SQLite's parse and plan step on every execution.
+ */
+export interface PreparedStatement<T = Record<string, unknown>> {
+  /** SQL the statement was prepared from */
+  readonly sql: string;
+
+  /**
+   * Execute the statement and return all rows.
+   *
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to array of rows matching type T
+   */
+  all(parameters?: SqlParameters, options?: CallOptions): Promise<T[]>;
+
+  /**
+   * Execute the statement and return the first row.
+   *
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to first row or null if no results
+   */
+  get(parameters?: SqlParameters, options?: CallOptions): Promise<T | null>;
+
+  /**
+   * Execute the statement for its side effects.
+   *
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to modification result with change count and insert ID
+   */
+  run(
+    parameters?: SqlParameters,
+    options?: CallOptions,
+  ): Promise<ModificationResult>;
+
+  /**
+   * Release the statement in the worker. Further calls on it will fail.
+   * Calling it more than once is a no-op.
+   *
+   * @returns Promise that resolves when the statement is released
+   */
+  finalize(): Promise<void>;
+}
+
+declare global {
+  /**
+   * Declares Symbol.asyncDispose, which Database and ConnectionManager are keyed by, for projects whose lib lacks it.
+   * The declaration merges with the one in TypeScript's esnext.disposable lib.
+   */
+  interface SymbolConstructor {
+    readonly asyncDispose: unique symbol;
+  }
 }
 
 /**
@@ -51,12 +778,52 @@ export interface TransactionStatement {
  * Provides separate methods for different types of database operations.
  */
 export interface Database {
+  /** Storage backend the database was opened on, with "auto" resolved */
+  readonly storage: StorageBackend;
+
+  /** Current health of the connection to the database worker */
+  readonly state: DatabaseState;
+
+  /**
+   * Listen for connection state changes, e.g. to show that the database is reconnecting.
+   *
+   * @param listener - Called with the new state, and the error for "crashed"
+   * @returns Function removing the listener
+   *
+   * @example
+   * ```typescript
+   * db.onStateChange((state, error) => {
+   *   if (state === 'crashed') console.error('Database worker died', error);
+   * });
+   * ```
+   */
+  onStateChange(listener: StateChangeListener): () => void;
+
+  /**
+   * Listen for lifecycle events: "open" (reopened after a crash), "close" and "error".
+   *
+   * @param event - Event name
+   * @param listener - Listener to call for each occurrence
+   * @returns Function removing the listener
+   *
+   * @example
+   * ```typescript
+   * db.on('error', (error) => reportToMonitoring(error));
+   * db.on('close', () => console.log('Database closed'));
+   * ```
+   */
+  on<E extends keyof DatabaseEventMap>(
+    event: E,
+    listener: DatabaseEventMap[E],
+  ): () => void;
+
   /**
    * Execute SELECT queries and return typed results.
    *
    * @typeParam T - Expected shape of each row (defaults to Record<string, unknown>)
-   * @param sql - SELECT statement
+   * @param sql - SELECT statement or sql`...` fragment
    * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
    * @returns Promise resolving to array of rows matching type T
    *
    * @example
@@ -66,16 +833,18 @@ export interface Database {
    * ```
    */
   query<T = Record<string, unknown>>(
-    sql: string,
+    sql: SqlInput,
     parameters?: SqlParameters,
+    options?: CallOptions,
   ): Promise<T[]>;
 
   /**
    * Execute a SELECT query and return the first row.
    *
    * @typeParam T - Expected shape of the row (defaults to Record<string, unknown>)
-   * @param sql - SELECT statement
+   * @param sql - SELECT statement or sql`...` fragment
    * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
    * @returns Promise resolving to first row or null if no results
    *
    * @example
@@ -85,15 +854,92 @@ export interface Database {
    * ```
    */
   queryOne<T = Record<string, unknown>>(
-    sql: string,
+    sql: SqlInput,
     parameters?: SqlParameters,
+    options?: CallOptions,
   ): Promise<T | null>;
 
+  /**
+   * Execute a SELECT query and return its rows along with column names and declared types.
+   * The columns are reported even when the query matches no rows.
+   *
+   * @typeParam T - Expected shape of each row (defaults to Record<string, unknown>)
+   * @param sql - SELECT statement or sql`...` fragment
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional row mode ("object" or "array"), timeout and abort signal
+   * @returns Promise resolving to column descriptions and rows
+   *
+   * @example
+   * ```typescript
+   * const { columns, rows } = await db.queryWithMeta<unknown[]>(
+   *   'SELECT u.id, o.id FROM users u JOIN orders o ON o.user_id = u.id',
+   *   [],
+   *   { rowMode: 'array' },
+   * );
+   * console.log(columns.map((column) => `${column.name} ${column.declaredType}`));
+   * ```
+   */
+  queryWithMeta<T = Record<string, unknown>>(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: QueryWithMetaOptions,
+  ): Promise<QueryResultWithMeta<T>>;
+
+  /**
+   * Stream the rows of a SELECT query from the worker in batches.
+   * Breaking out of the loop early releases the statement in the worker.
+   *
+   * @typeParam T - Expected shape of each row (defaults to Record<string, unknown>)
+   * @param sql - SELECT statement or sql`...` fragment
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional batch size, timeout per batch and abort signal
+   * @returns Async iterator over rows matching type T
+   *
+   * @example
+   * ```typescript
+   * for await (const user of db.iterate<User>('SELECT * FROM users', [], { batchSize: 500 })) {
+   *   if (user.id > 1000) break;
+   * }
+   * ```
+   */
+  iterate<T = Record<string, unknown>>(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: IterateOptions,
+  ): AsyncIterableIterator<T>;
+
+  /**
+   * Run a live query: the callback receives the current rows right away and again
+   * whenever a table the query reads is modified through this connection.
+   * Changes made inside a transaction are reported once it commits.
+   *
+   * @typeParam T - Expected shape of each row (defaults to Record<string, unknown>)
+   * @param sql - SELECT statement or sql`...` fragment
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param callback - Receives the rows after every relevant change
+   * @param options - Optional error handler
+   * @returns Function that stops the live query
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = db.watch<User>('SELECT * FROM users', [], (users) => render(users));
+   * // later
+   * unsubscribe();
+   * ```
+   */
+  watch<T = Record<string, unknown>>(
+    sql: SqlInput,
+    parameters: SqlParameters | undefined,
+    callback: WatchCallback<T>,
+    options?: WatchOptions,
+  ): () => void;
+
   /**
    * Execute INSERT, UPDATE, DELETE statements.
    *
-   * @param sql - Data modification statement (INSERT, UPDATE, DELETE)
+   * @param sql - Data modification statement (INSERT, UPDATE, DELETE) or sql`...` fragment
    * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
    * @returns Promise resolving to modification result with change count and insert ID
    *
    * @example
@@ -102,13 +948,80 @@ export interface Database {
    * console.log(`Inserted ${result.changes} rows, ID: ${result.lastInsertRowid}`);
    * ```
    */
-  execute(sql: string, parameters?: SqlParameters): Promise<ModificationResult>;
+  execute(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: CallOptions,
+  ): Promise<ModificationResult>;
+
+  /**
+   * Execute an INSERT, UPDATE or DELETE statement with a RETURNING clause.
+   * The returned rows come back with the change count in one round trip, so generated values need no follow-up SELECT.
+   *
+   * @typeParam T - Shape of a returned row
+   * @param sql - Data modification statement with a RETURNING clause, or sql`...` fragment
+   * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to the returned rows, change count and insert ID
+   *
+   * @example
+   * ```typescript
+   * const { rows } = await db.executeReturning<{ id: number; createdAt: string }>(
+   *   'INSERT INTO users (name) VALUES (?) RETURNING id, created_at AS createdAt',
+   *   ['John'],
+   * );
+   * ```
+   */
+  executeReturning<T = Record<string, unknown>>(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: CallOptions,
+  ): Promise<ReturningResult<T>>;
+
+  /**
+   * Execute one INSERT, UPDATE or DELETE statement for many parameter sets in a single worker round trip.
+   * The statement is prepared once; by default the batch runs atomically.
+   *
+   * @param sql - Data modification statement (INSERT, UPDATE, DELETE), as a string or a sql`...` fragment without bound values
+   * @param rows - One positional (array) or named (object) parameter set per execution
+   * @param options - Optional transaction flag, timeout and abort signal
+   * @returns Promise resolving to the total change count and the insert ID of each row
+   *
+   * @example
+   * ```typescript
+   * const result = await db.executeMany('INSERT INTO users (name) VALUES (?)', [['Alice'], ['Bob']]);
+   * console.log(`Inserted ${result.changes} rows, IDs: ${result.lastInsertRowids.join(', ')}`);
+   * ```
+   */
+  executeMany(
+    sql: SqlInput,
+    rows: ReadonlyArray<SqlParameters>,
+    options?: ExecuteManyOptions,
+  ): Promise<BulkModificationResult>;
+
+  /**
+   * Run a multi-statement script, such as a .sql file of schema and seed data, one statement at a time.
+   * Strings, comments and trigger bodies are respected when splitting; by default the script runs in one transaction.
+   *
+   * @param script - SQL script
+   * @param options - Optional transaction flag and mode, per-statement timeout and abort signal
+   * @returns Promise resolving to a report of every statement
+   * @throws {WebSQLiteError} With `location` set to the failing statement's index and position
+   *
+   * @example
+   * ```typescript
+   * const report = await db.exec(await (await fetch('/schema.sql')).text());
+   * console.log(`${report.statements.length} statements, ${report.changes} changes`);
+   * ```
+   */
+  exec(script: string, options?: ExecScriptOptions): Promise<ScriptResult>;
 
   /**
    * Execute DDL statements (CREATE, DROP, ALTER, etc.) and utility operations.
    *
-   * @param sql - DDL or utility statement
+   * @param sql - DDL or utility statement or sql`...` fragment
    * @param parameters - Optional positional (array) or named (object) parameters
+   * @param options - Optional timeout and abort signal
    * @returns Promise resolving to void
    *
    * @example
@@ -117,13 +1030,18 @@ export interface Database {
    * await db.run('CREATE INDEX idx_users_name ON users(name)');
    * ```
    */
-  run(sql: string, parameters?: SqlParameters): Promise<void>;
+  run(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: CallOptions,
+  ): Promise<void>;
 
   /**
    * Execute multiple statements in a transaction.
    * All statements succeed or all fail atomically.
    *
    * @param statements - Array of statements with optional parameters and types
+   * @param options - Optional transaction mode, per-statement timeout and abort signal
    * @returns Promise resolving to array of results from each statement
    *
    * @example
@@ -134,10 +1052,246 @@ export interface Database {
    * ]);
    * ```
    */
-  transaction(statements: TransactionStatement[]): Promise<Array<unknown>>;
+  transaction(
+    statements: TransactionStatement[],
+    options?: TransactionOptions,
+  ): Promise<Array<unknown>>;
+
+  /**
+   * Run a callback inside a transaction.
+   * Commits when the callback resolves and rolls back when it throws.
+   * Nested tx.transaction() calls map to savepoints.
+   *
+   * @typeParam R - Result of the callback
+   * @param callback - Work to run with the transaction handle
+   * @param options - Optional transaction mode, per-statement timeout and abort signal
+   * @returns Promise resolving to the callback's result
+   *
+   * @example
+   * ```typescript
+   * await db.transaction(async (tx) => {
+   *   const account = await tx.queryOne<Account>('SELECT * FROM accounts WHERE id = ?', [1]);
+   *   if (account && account.balance >= 100) {
+   *     await tx.execute('UPDATE accounts SET balance = balance - 100 WHERE id = ?', [1]);
+   *   }
+   * }, { mode: 'immediate' });
+   * ```
+   */
+  transaction<R>(
+    callback: TransactionCallback<R>,
+    options?: TransactionOptions,
+  ): Promise<R>;
+
+  /**
+   * Apply pending schema migrations, tracking the applied version in PRAGMA user_version.
+   * All pending steps run in one transaction; a database newer than the latest migration is refused.
+   *
+   * @param migrations - Ordered list of versioned up-migrations
+   * @param options - Optional per-statement timeout and abort signal
+   * @returns Promise resolving to a report of the versions and the steps that ran
+   *
+   * @example
+   * ```typescript
+   * const result = await db.migrate([
+   *   { version: 1, up: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)' },
+   *   { version: 2, up: async (tx) => { await tx.run('ALTER TABLE users ADD COLUMN email TEXT'); } },
+   * ]);
+   * console.log(`Migrated from ${result.fromVersion} to ${result.toVersion}`);
+   * ```
+   */
+  migrate(
+    migrations: ReadonlyArray<Migration>,
+    options?: CallOptions,
+  ): Promise<MigrationResult>;
+
+  /**
+   * Compile a statement once and keep it in the worker for repeated execution.
+   * Statements that are still open are finalized automatically by close(), or when the transaction
+   * that prepared them through tx.prepare() ends. After a worker replacement they are prepared again.
+   *
+   * @typeParam T - Expected shape of each row (defaults to Record<string, unknown>)
+   * @param sql - Any single SQL statement (a sql`...` fragment must not carry values)
+   * @param options - Optional timeout and abort signal for compiling the statement
+   * @returns Promise resolving to a prepared statement handle
+   *
+   * @example
+   * ```typescript
+   * const findUser = await db.prepare<User>('SELECT * FROM users WHERE id = ?');
+   * const alice = await findUser.get([1]);
+   * const bob = await findUser.get([2]);
+   * await findUser.finalize();
+   * ```
+   */
+  prepare<T = Record<string, unknown>>(
+    sql: SqlInput,
+    options?: CallOptions,
+  ): Promise<PreparedStatement<T>>;
+
+  /**
+   * Explain how SQLite runs a statement, flag costly steps and suggest indexes.
+   * The statement itself is not run.
+   *
+   * @param sql - Single statement returning rows to explain
+   * @param parameters - Optional parameters; plans can depend on them
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to the plan tree, its issues and candidate indexes
+   * @throws {WebSQLiteError} If sql holds several statements, or one that returns no rows
+   *
+   * @example
+   * ```typescript
+   * const plan = await db.explain('SELECT * FROM orders WHERE customer_id = ?', [42]);
+   * // plan.issues: [{ kind: 'full-scan', table: 'orders', ... }]
+   * // plan.suggestedIndexes: ['CREATE INDEX idx_orders_customer_id ON orders (customer_id)']
+   * ```
+   */
+  explain(
+    sql: SqlInput,
+    parameters?: SqlParameters,
+    options?: CallOptions,
+  ): Promise<QueryPlan>;
+
+  /**
+   * Export a consistent snapshot of the database as a SQLite file image.
+   *
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to the database bytes
+   *
+   * @example
+   * ```typescript
+   * const bytes = await db.export();
+   * const url = URL.createObjectURL(new Blob([bytes], { type: 'application/x-sqlite3' }));
+   * ```
+   */
+  export(options?: CallOptions): Promise<Uint8Array>;
+
+  /**
+   * Copy the live database to another OPFS file, a few pages at a time.
+   * Other calls run between the steps; a commit in between makes the copy start over, so the result is consistent.
+   *
+   * @param filename - Target database filename in OPFS; an existing file is replaced
+   * @param options - Pages per step, progress callback, target backend, per-step timeout and abort signal
+   * @returns Promise resolving to the size of the copy once it is complete
+   *
+   * @example
+   * ```typescript
+   * await db.backup('app-before-sync.sqlite3', {
+   *   onProgress: ({ copiedPages, totalPages }) => console.log(`${copiedPages}/${totalPages}`),
+   * });
+   * ```
+   */
+  backup(filename: string, options?: BackupOptions): Promise<BackupResult>;
+
+  /**
+   * Attach another database file under an alias, for queries across databases.
+   * Attachments survive worker replacement when `reconnect` is enabled.
+   *
+   * @param alias - Schema name the attached tables are reached through
+   * @param filename - Database file to attach
+   * @param options - Storage backend of the file, timeout and abort signal
+   * @returns Promise resolving when the file is attached
+   *
+   * @example
+   * ```typescript
+   * await db.attach('ref', 'reference.sqlite3');
+   * const rows = await db.query(
+   *   'SELECT o.id, p.name FROM orders o JOIN ref.products p ON p.id = o.product_id',
+   * );
+   * ```
+   */
+  attach(
+    alias: string,
+    filename: string,
+    options?: AttachOptions,
+  ): Promise<void>;
+
+  /**
+   * Detach a database attached with attach().
+   *
+   * @param alias - Alias given to attach()
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving when the file is detached
+   */
+  detach(alias: string, options?: CallOptions): Promise<void>;
+
+  /**
+   * Register a scalar SQL function.
+   * The function is serialized and runs inside the worker, so it cannot use variables from its surroundings;
+   * pass a module reference instead when it needs imports.
+   * Functions survive worker replacement when `reconnect` is enabled.
+   *
+   * @param name - SQL function name
+   * @param implementation - Self-contained function, or { module, export } reference
+   * @param options - Arity, deterministic and directOnly flags, timeout and abort signal
+   * @returns Promise resolving when the function is registered
+   *
+   * @example
+   * ```typescript
+   * await db.createFunction('slugify', (text) => String(text).toLowerCase().replace(/\W+/g, '-'), {
+   *   arity: 1,
+   *   deterministic: true,
+   * });
+   * await db.createFunction('distance', { module: '/sql/geo.js', export: 'distance' });
+   * const rows = await db.query('SELECT slugify(title) AS slug FROM posts');
+   * ```
+   */
+  createFunction(
+    name: string,
+    implementation: SqlFunctionImplementation,
+    options?: FunctionOptions,
+  ): Promise<void>;
+
+  /**
+   * Register an aggregate SQL function, usable with GROUP BY like SUM().
+   * Its parts run inside the worker under the same rules as createFunction().
+   *
+   * @param name - SQL function name
+   * @param definition - start, step and final functions, or { module, export } reference to such an object
+   * @param options - Arity, deterministic and directOnly flags, timeout and abort signal
+   * @returns Promise resolving when the function is registered
+   *
+   * @example
+   * ```typescript
+   * await db.createAggregate('median', {
+   *   start: () => [],
+   *   step: (values, value) => [...values, value],
+   *   final: (values) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? null,
+   * }, { arity: 1 });
+   * const rows = await db.query('SELECT team, median(score) FROM results GROUP BY team');
+   * ```
+   */
+  createAggregate<S = any>(
+    name: string,
+    definition: AggregateDefinition<S> | SqlFunctionModule,
+    options?: FunctionOptions,
+  ): Promise<void>;
+
+  /**
+   * Run a command of a worker plugin against this database, in a single round trip.
+   * Argument and result types come from the PluginCommands declarations.
+   *
+   * @param command - Command name
+   * @param args - Command arguments
+   * @param options - Optional timeout and abort signal
+   * @returns Promise resolving to the command's result
+   *
+   * @example
+   * ```typescript
+   * const db = await webSqlite('app.sqlite3', {
+   *   plugins: [new URL('./plugins/reports.js', import.meta.url)],
+   * });
+   * const { total } = await db.call('monthlyReport', { month: '2024-05' });
+   * ```
+   */
+  call<K extends keyof PluginCommands & string>(
+    command: K,
+    args?: PluginCommandArgs<K>,
+    options?: CallOptions,
+  ): Promise<PluginCommandResult<K>>;
 
   /**
-   * Close the database connection and cleanup resources.
+   * Close the database connection, terminate its worker and release its resources.
+   * Calls queued before close() still run; later calls fail with DatabaseClosedError.
+   * Calling it more than once returns the same promise.
    *
    * @returns Promise that resolves when the database is properly closed
    *
@@ -147,18 +1301,219 @@ export interface Database {
    * ```
    */
   close(): Promise<void>;
+
+  /**
+   * Close the database at the end of an `await using` block; same as close().
+   *
+   * @example
+   * ```typescript
+   * await using db = await webSqlite('app.sqlite3');
+   * ```
+   */
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Opens several databases on one shared worker, so they share a single WebAssembly instance.
+ */
+export interface ConnectionManager {
+  /**
+   * Open a database on the shared worker.
+   *
+   * @param filename - Name of the SQLite database file
+   * @param options - Storage backend and migrations to apply on open
+   * @returns Promise resolving to the database
+   *
+   * @example
+   * ```typescript
+   * const manager = await createConnectionManager();
+   * const userDb = await manager.open(`user-${userId}.sqlite3`);
+   * const referenceDb = await manager.open('reference.sqlite3');
+   * ```
+   */
+  open(filename: string, options?: ManagedDatabaseOptions): Promise<Database>;
+
+  /** Databases opened through the manager and not closed yet */
+  readonly databases: ReadonlyArray<Database>;
+
+  /**
+   * Close every open database and terminate the shared worker.
+   * Calling it more than once returns the same promise.
+   *
+   * @returns Promise resolving when the worker is gone
+   */
+  close(): Promise<void>;
+
+  /**
+   * Close the manager at the end of an `await using` block; same as close().
+   */
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/**
+ * Category of a WebSQLiteError, derived from its SQLite result code.
+ * - "library": raised by Web-SQLite itself (validation, worker failures), no SQLite code
+ * - "sqlite": any SQLite error without a more specific category
+ */
+export type WebSQLiteErrorKind =
+  | "constraint"
+  | "busy"
+  | "storage-full"
+  | "readonly"
+  | "corrupt"
+  | "aborted"
+  | "crashed"
+  | "closed"
+  | "sqlite"
+  | "library";
+
+/**
+ * SQLite failure details carried by a WebSQLiteError.
+ */
+export interface WebSQLiteErrorDetails {
+  /** Extended SQLite result code, e.g. 2067 */
+  resultCode?: number;
+  /** Primary result code name, e.g. "SQLITE_CONSTRAINT" */
+  code?: string;
+  /** Extended result code name, e.g. "SQLITE_CONSTRAINT_UNIQUE" */
+  extendedCode?: string;
+  /** SQL of the failing statement */
+  sql?: string;
+  /** Values bound to the failing statement, masked when redactErrorParameters is set */
+  parameters?: SqlParameters;
+  /** Position of the failing statement, for errors raised by Database.exec() */
+  location?: ScriptLocation;
 }
 
+/**
+ * Error kind for each primary SQLite result code with its own category.
+ */
+const ERROR_KINDS: Readonly<Record<string, WebSQLiteErrorKind>> = {
+  SQLITE_CONSTRAINT: "constraint",
+  SQLITE_BUSY: "busy",
+  SQLITE_LOCKED: "busy",
+  SQLITE_FULL: "storage-full",
+  SQLITE_READONLY: "readonly",
+  SQLITE_CORRUPT: "corrupt",
+  SQLITE_NOTADB: "corrupt",
+};
+
 /**
  * Custom error class for Web-SQLite operations.
  */
 export class WebSQLiteError extends Error {
+  /** Category to branch on instead of parsing the message */
+  public kind: WebSQLiteErrorKind;
+  /** Extended SQLite result code, e.g. 2067 */
+  public resultCode?: number;
+  /** Primary result code name, e.g. "SQLITE_CONSTRAINT" */
+  public code?: string;
+  /** Extended result code name, e.g. "SQLITE_CONSTRAINT_UNIQUE" */
+  public extendedCode?: string;
+  /** SQL of the failing statement */
+  public sql?: string;
+  /** Values bound to the failing statement */
+  public parameters?: SqlParameters;
+  /** Position of the failing statement in a script run by Database.exec() */
+  public location?: ScriptLocation;
+
   constructor(
     message: string,
     public cause?: Error,
+    details: WebSQLiteErrorDetails = {},
   ) {
     super(message);
     this.name = "WebSQLiteError";
+    this.resultCode = details.resultCode;
+    this.code = details.code;
+    this.extendedCode = details.extendedCode;
+    this.sql = details.sql;
+    this.parameters = details.parameters;
+    this.location = details.location;
+    this.kind = details.code
+      ? (ERROR_KINDS[details.code] ?? "sqlite")
+      : "library";
+  }
+}
+
+/**
+ * Error raised when a statement violates a constraint (UNIQUE, NOT NULL, FOREIGN KEY, CHECK, ...).
+ * extendedCode tells which, e.g. "SQLITE_CONSTRAINT_UNIQUE".
+ */
+export class ConstraintError extends WebSQLiteError {
+  constructor(
+    message: string,
+    cause?: Error,
+    details: WebSQLiteErrorDetails = {},
+  ) {
+    super(message, cause, details);
+    this.name = "ConstraintError";
+  }
+}
+
+/**
+ * Error raised when the database is locked by another connection (SQLITE_BUSY or SQLITE_LOCKED).
+ * The operation may succeed when retried.
+ */
+export class BusyError extends WebSQLiteError {
+  constructor(
+    message: string,
+    cause?: Error,
+    details: WebSQLiteErrorDetails = {},
+  ) {
+    super(message, cause, details);
+    this.name = "BusyError";
+  }
+}
+
+/**
+ * Error raised when the storage is full or the origin's quota is exhausted (SQLITE_FULL).
+ */
+export class StorageFullError extends WebSQLiteError {
+  constructor(
+    message: string,
+    cause?: Error,
+    details: WebSQLiteErrorDetails = {},
+  ) {
+    super(message, cause, details);
+    this.name = "StorageFullError";
+  }
+}
+
+/**
+ * Error raised when a call is cancelled through its AbortSignal or runs past its timeout.
+ * The running statement is interrupted in the worker.
+ */
+export class WebSQLiteAbortError extends WebSQLiteError {
+  constructor(
+    message: string,
+    public reason: "aborted" | "timeout",
+  ) {
+    super(message);
+    this.name = "WebSQLiteAbortError";
+    this.kind = "aborted";
+  }
+}
+
+/**
+ * Error raised for calls that were in flight, or are made later, after the database worker died.
+ */
+export class WorkerCrashedError extends WebSQLiteError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = "WorkerCrashedError";
+    this.kind = "crashed";
+  }
+}
+
+/**
+ * Error raised for calls made after Database.close().
+ */
+export class DatabaseClosedError extends WebSQLiteError {
+  constructor(message: string = "Database is closed") {
+    super(message);
+    this.name = "DatabaseClosedError";
+    this.kind = "closed";
   }
 }
 
@@ -179,9 +1534,26 @@ export interface WorkerResponse {
   result?: any;
   error?: string;
   messageId?: string;
+  dbId?: string;
+  /** Milliseconds the worker spent handling the request */
+  workerTime?: number;
+}
+
+/**
+ * Options accepted by the worker promiser.
+ */
+export interface WorkerCallOptions extends CallOptions {
+  /** Worker database the request targets (defaults to the first one opened) */
+  dbId?: string;
+  /** Receives the milliseconds the worker spent handling the request, when it reports them */
+  onWorkerTime?: (milliseconds: number) => void;
 }
 
 /**
  * Function type for the worker promiser
  */
-export type WorkerPromiseFunction = (type: string, args?: any) => Promise<any>;
+export type WorkerPromiseFunction = (
+  type: string,
+  args?: any,
+  options?: WorkerCallOptions,
+) => Promise<any>;
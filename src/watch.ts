@@ -0,0 +1,112 @@
+/**
+ * Live query support for Web-SQLite.
+ * Re-runs a query whenever a table it reads is modified on the connection.
+ */
+
+import type {
+  SqlInput,
+  SqlParameters,
+  WorkerPromiseFunction,
+  WatchCallback,
+  WatchOptions,
+} from "./types.js";
+import { validateSqlInput, createWorkerError } from "./errors.js";
+import { createQueryFunction, expectRowStatement } from "./exec.js";
+import type { WorkerEventHub } from "./events.js";
+import { resolveSqlInput } from "./sql.js";
+
+/**
+ * Creates a watch function for live SELECT queries.
+ *
+ * @param promiser - Worker promiser function for database communication
+ * @param events - Event hub receiving the worker's table-change events
+ * @returns Function to start a live query and return its unsubscribe function
+ */
+export const createWatchFunction = (
+  promiser: WorkerPromiseFunction,
+  events: WorkerEventHub,
+) => {
+  const query = createQueryFunction(promiser);
+
+  return <T>(
+    input: SqlInput,
+    inputParameters: SqlParameters | undefined,
+    callback: WatchCallback<T>,
+    options: WatchOptions = {},
+  ): (() => void) => {
+    // 1. Input validation
+    const { sql, parameters } = resolveSqlInput(input, inputParameters);
+    validateSqlInput(sql, parameters);
+    // Live queries run again on every change, so they must not modify anything
+    const { operation, keyword } = expectRowStatement(sql);
+    if (operation !== "select") {
+      throw createWorkerError(
+        new Error(`Expected SELECT statement, got ${keyword}`),
+        "SQL operation type mismatch",
+      );
+    }
+    if (typeof callback !== "function") {
+      throw createWorkerError(
+        new Error("Callback must be a function"),
+        "Live query validation",
+      );
+    }
+
+    // 2. Re-run the query, coalescing changes that arrive while it runs
+    let isActive = true;
+    let isRunning = false;
+    let isStale = false;
+    let dependencies: Set<string> | null = null;
+    const reportError =
+      options.onError ??
+      ((error: Error) => console.error("Live query failed:", error));
+
+    const refresh = async (): Promise<void> => {
+      if (isRunning) {
+        isStale = true;
+        return;
+      }
+      isRunning = true;
+      try {
+        do {
+          isStale = false;
+          const rows = await query<T>(sql, parameters);
+          if (isActive) callback(rows);
+        } while (isStale && isActive);
+      } catch (error) {
+        if (isActive) reportError(error as Error);
+      } finally {
+        isRunning = false;
+      }
+    };
+
+    // 2.1 React to committed changes of the tables the query reads
+    const unsubscribe = events.subscribe("table-change", (event) => {
+      const changedTables: string[] = event.result?.tables ?? [];
+      const isAffected = changedTables.some((table) =>
+        dependencies?.has(table.toLowerCase()),
+      );
+      if (isActive && isAffected) {
+        void refresh();
+      }
+    });
+
+    // 2.2 Resolve the tables the query reads, then deliver the first result
+    promiser("query-tables", { sql })
+      .then((result) => {
+        dependencies = new Set(
+          (result.tables as string[]).map((table) => table.toLowerCase()),
+        );
+        return refresh();
+      })
+      .catch((error) => {
+        if (isActive) reportError(createWorkerError(error, "Live query setup"));
+      });
+
+    // 3. Return the unsubscribe function
+    return () => {
+      isActive = false;
+      unsubscribe();
+    };
+  };
+};
@@ -2,43 +2,122 @@
  * Worker management for SQLite OPFS Worker communication.
  */
 
-import type { WorkerPromiseFunction } from "./types.js";
-import { WebSQLiteError, createWorkerError } from "./errors.js";
+import type {
+  CallOptions,
+  PersistentStorageBackend,
+  StorageBackend,
+  WebSQLiteErrorDetails,
+  WorkerCallOptions,
+  WorkerPromiseFunction,
+} from "./types.js";
+import {
+  WebSQLiteAbortError,
+  WorkerCrashedError,
+  createWorkerError,
+} from "./errors.js";
+import type { WorkerEventListener } from "./events.js";
+import { redactParameters } from "./parameters.js";
+import { loadPlugins } from "./plugins.js";
 
 // Use custom SQLite worker that includes OPFS proxy
 import InlineWorker from "./sqlite3-worker-with-opfs.js?worker&inline";
 
+/**
+ * Per-call timeout used when neither the call nor webSqlite() sets one.
+ */
+export const DEFAULT_TIMEOUT = 30000;
+
+/**
+ * Connection-wide settings applied by the promiser.
+ */
+export interface WorkerSettings {
+  /** Timeout in milliseconds for calls that do not set one (0 disables it) */
+  timeout?: number;
+  /** Mask the bound values attached to errors */
+  redactErrorParameters?: boolean;
+  /** Called once if the worker dies after start-up */
+  onCrash?: (error: WorkerCrashedError) => void;
+  /** Absolute URLs of the plugin modules loaded into the worker */
+  plugins?: ReadonlyArray<string>;
+}
+
+/**
+ * Running worker and its promiser.
+ */
+export interface SQLiteWorker {
+  /** Promiser for requests to the worker */
+  promiser: WorkerPromiseFunction;
+  /** Stops the worker immediately */
+  terminate(): void;
+}
+
+/**
+ * Creates the flag the worker polls to interrupt a running statement.
+ * Sharing memory with the worker requires cross-origin isolation.
+ *
+ * @returns Shared flag, or null when SharedArrayBuffer is unavailable
+ */
+const createInterruptFlag = (): Int32Array | null =>
+  typeof SharedArrayBuffer !== "undefined" && globalThis.crossOriginIsolated
+    ? new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT))
+    : null;
+
 /**
  * Creates and initializes a SQLite worker with OPFS support.
  *
- * @returns Promise resolving to worker promiser function
+ * @param onEvent - Optional listener for messages the worker posts on its own
+ * @param settings - Default timeout, error redaction and plugins
+ * @returns Promise resolving to the initialized worker
  */
-export const createSQLiteWorker = async (): Promise<WorkerPromiseFunction> => {
+export const createSQLiteWorker = async (
+  onEvent?: WorkerEventListener,
+  settings: WorkerSettings = {},
+): Promise<SQLiteWorker> => {
   // 1. Create worker instance using custom worker with OPFS support
   const worker = new InlineWorker();
 
-  // 2. Initialize promiser for async communication
-  const promiser = await initializeWorkerPromiser(worker);
+  // 2. Initialize promiser for async communication and load plugins, stopping the worker if that fails
+  let promiser: WorkerPromiseFunction;
+  try {
+    promiser = await initializeWorkerPromiser(worker, onEvent, settings);
+    await loadPlugins(promiser, settings.plugins ?? []);
+  } catch (error) {
+    worker.terminate();
+    throw error;
+  }
 
-  // 3. Return promiser function
-  return promiser;
+  // 3. Return the worker
+  return { promiser, terminate: () => worker.terminate() };
 };
 
 /**
  * Initializes the worker promiser for async communication with sqlite3-worker1.js
  *
  * @param worker - The worker instance
+ * @param onEvent - Optional listener for messages that do not answer a request
+ * @param settings - Default timeout and error redaction
  * @returns Promise resolving to promiser function
  */
 export const initializeWorkerPromiser = async (
   worker: Worker,
+  onEvent?: WorkerEventListener,
+  settings: WorkerSettings = {},
 ): Promise<WorkerPromiseFunction> => {
+  const { timeout: defaultTimeout = DEFAULT_TIMEOUT, redactErrorParameters } =
+    settings;
+
   return new Promise((resolve, reject) => {
     let isInitialized = false;
+    let crashError: WorkerCrashedError | null = null;
     let messageId = 0;
+    const interruptFlag = createInterruptFlag();
     const pendingMessages = new Map<
       string,
-      { resolve: Function; reject: Function }
+      {
+        resolve: Function;
+        reject: Function;
+        onWorkerTime?: (milliseconds: number) => void;
+      }
     >();
 
     // 1. Handle worker messages
@@ -52,7 +131,15 @@ export const initializeWorkerPromiser = async (
         data.result === "worker1-ready"
       ) {
         isInitialized = true;
-        resolve(createPromiserFunction());
+        const promiser = createPromiserFunction();
+
+        // Messages are handled in order, so the flag is in place before any statement runs
+        if (interruptFlag) {
+          promiser("interrupt-flag", { buffer: interruptFlag.buffer }).catch(
+            () => undefined,
+          );
+        }
+        resolve(promiser);
         return;
       }
 
@@ -60,12 +147,25 @@ export const initializeWorkerPromiser = async (
       if (data.messageId && pendingMessages.has(data.messageId)) {
         const pending = pendingMessages.get(data.messageId)!;
         pendingMessages.delete(data.messageId);
+        if (typeof data.workerTime === "number") {
+          pending.onWorkerTime?.(data.workerTime);
+        }
 
         if (data.error) {
-          pending.reject(createWorkerError(data.error, "Worker execution"));
+          pending.reject(data.error);
+        } else if (data.type === "error") {
+          // Drop the echoed request, which holds the bound values
+          const { input: _input, ...failure } = data.result;
+          pending.reject(failure);
         } else {
           pending.resolve(data.result);
         }
+        return;
+      }
+
+      // Handle unsolicited worker events (e.g. table changes)
+      if (isInitialized && !data.messageId && onEvent) {
+        onEvent(data);
       }
     };
 
@@ -73,30 +173,126 @@ export const initializeWorkerPromiser = async (
     worker.onerror = (error) => {
       if (!isInitialized) {
         reject(createWorkerError(error, "Worker initialization"));
+        return;
+      }
+
+      // 2.1 After start-up an uncaught error leaves the worker unusable (e.g. wasm out of memory): retire it
+      if (crashError) return;
+      crashError = new WorkerCrashedError(
+        `Worker crashed: ${error.message || "unknown error"}`,
+      );
+      worker.terminate();
+      for (const pending of Array.from(pendingMessages.values())) {
+        pending.reject(crashError);
       }
+      settings.onCrash?.(crashError);
     };
 
     // 3. Create promiser function
+    const describeStatement = (args: any): WebSQLiteErrorDetails => {
+      if (typeof args?.sql !== "string") return {};
+      const parameters = args.bind ?? undefined;
+      return {
+        sql: args.sql,
+        parameters:
+          parameters && redactErrorParameters
+            ? redactParameters(parameters)
+            : parameters,
+      };
+    };
+
     function createPromiserFunction(): WorkerPromiseFunction {
-      return (type: string, args?: any): Promise<any> => {
+      return (
+        type: string,
+        args?: any,
+        options: WorkerCallOptions = {},
+      ): Promise<any> => {
         return new Promise((resolve, reject) => {
-          const msgId = `msg-${++messageId}`;
+          const { signal } = options;
+          const timeout = options.timeout ?? defaultTimeout;
+
+          // A dead worker fails every call right away
+          if (crashError) {
+            reject(crashError);
+            return;
+          }
 
-          pendingMessages.set(msgId, { resolve, reject });
+          // Calls aborted while queued never reach the worker
+          if (signal?.aborted) {
+            reject(new WebSQLiteAbortError("Operation was aborted", "aborted"));
+            return;
+          }
+
+          const token = ++messageId;
+          const msgId = `msg-${token}`;
+          let timer: ReturnType<typeof setTimeout> | undefined;
+
+          const settle = () => {
+            pendingMessages.delete(msgId);
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+          };
+
+          // Stop waiting and ask the worker to interrupt the statement;
+          // without a shared flag the worker still stops it at the deadline
+          const cancel = (error: WebSQLiteAbortError) => {
+            if (!pendingMessages.has(msgId)) return;
+            settle();
+            if (interruptFlag) Atomics.store(interruptFlag, 0, token);
+            reject(error);
+          };
+          const onAbort = () =>
+            cancel(new WebSQLiteAbortError("Operation was aborted", "aborted"));
+
+          pendingMessages.set(msgId, {
+            onWorkerTime: options.onWorkerTime,
+            resolve: (value: any) => {
+              settle();
+              resolve(value);
+            },
+            reject: (failure: any) => {
+              settle();
+              // The worker stops a statement at its deadline on its own and may answer before our timer fires
+              if (failure?.code === "SQLITE_INTERRUPT" && timeout > 0) {
+                reject(
+                  new WebSQLiteAbortError(
+                    `Operation timed out after ${timeout}ms`,
+                    "timeout",
+                  ),
+                );
+                return;
+              }
+              reject(
+                createWorkerError(
+                  failure,
+                  "Worker execution",
+                  describeStatement(args),
+                ),
+              );
+            },
+          });
 
           worker.postMessage({
             type,
             args,
             messageId: msgId,
+            dbId: options.dbId,
+            interrupt: { token, timeout },
           });
 
-          // Timeout after 30 seconds
-          setTimeout(() => {
-            if (pendingMessages.has(msgId)) {
-              pendingMessages.delete(msgId);
-              reject(new WebSQLiteError("Worker operation timeout"));
-            }
-          }, 30000);
+          if (timeout > 0) {
+            timer = setTimeout(
+              () =>
+                cancel(
+                  new WebSQLiteAbortError(
+                    `Operation timed out after ${timeout}ms`,
+                    "timeout",
+                  ),
+                ),
+              timeout,
+            );
+          }
+          signal?.addEventListener("abort", onAbort, { once: true });
         });
       };
     }
@@ -107,22 +303,34 @@ export const initializeWorkerPromiser = async (
 };
 
 /**
- * Opens a database using OPFS persistence.
+ * Opens a database on the given storage backend.
  *
  * @param promiser - Worker promiser function
- * @param filename - Database filename
- * @returns Promise resolving when database is opened
+ * @param filename - Database filename (ignored for in-memory storage)
+ * @param storage - Storage backend to open the database with
+ * @returns Promise resolving to the worker's id for the database
  */
 export const openDatabase = async (
   promiser: WorkerPromiseFunction,
   filename: string,
-): Promise<void> => {
+  storage: StorageBackend = "opfs",
+): Promise<string> => {
   try {
-    // 1. Open database with OPFS VFS
-    await promiser("open", {
-      filename,
-      vfs: "opfs",
-    });
+    // 1. The SAH pool VFS is installed on demand; it claims OPFS handles
+    if (storage === "opfs-sahpool") {
+      await promiser("install-sahpool", {});
+    }
+
+    // 2. Open database with the VFS of the chosen storage
+    const result = await promiser(
+      "open",
+      storage === "memory"
+        ? { filename: ":memory:" }
+        : { filename, vfs: storage },
+    );
+
+    // 3. Return the id that routes requests to this database
+    return result.dbId;
   } catch (error) {
     throw createWorkerError(error, "Database open");
   }
@@ -144,3 +352,105 @@ export const closeDatabase = async (
     throw createWorkerError(error, "Database close");
   }
 };
+
+/**
+ * Releases the worker's resources and terminates it.
+ *
+ * @param worker - Worker to stop
+ * @returns Promise resolving once the worker is gone
+ */
+export const shutdownWorker = async (worker: SQLiteWorker): Promise<void> => {
+  // 1. Close anything still open and revoke the OPFS proxy URL; a crashed worker has nothing to release
+  await worker.promiser("shutdown", {}).catch(() => undefined);
+
+  // 2. Terminate the worker
+  worker.terminate();
+};
+
+/**
+ * Exports a consistent snapshot of the open database as a byte array.
+ *
+ * @param promiser - Worker promiser function
+ * @param options - Optional timeout and abort signal
+ * @returns Promise resolving to the SQLite database image
+ */
+export const exportDatabase = async (
+  promiser: WorkerPromiseFunction,
+  options: CallOptions = {},
+): Promise<Uint8Array> => {
+  try {
+    // 1. Serialize the database in the worker
+    const result = await promiser("export", {}, options);
+
+    // 2. Return the image bytes
+    return result.byteArray as Uint8Array;
+  } catch (error) {
+    throw createWorkerError(error, "Database export");
+  }
+};
+
+/**
+ * Writes a SQLite database image into OPFS using a short-lived worker.
+ * The file must not be open in another connection while it is written.
+ *
+ * @param filename - Target database filename in OPFS
+ * @param bytes - SQLite database image
+ * @param overwrite - Whether an existing file may be replaced
+ * @param storage - OPFS backend the file is written for
+ * @returns Promise resolving when the image has been written
+ */
+export const importDatabaseFile = async (
+  filename: string,
+  bytes: Uint8Array,
+  overwrite: boolean,
+  storage: PersistentStorageBackend,
+): Promise<void> => {
+  // 1. Start a worker just for the import
+  const worker = new InlineWorker();
+
+  try {
+    // 2. Write the image through the OPFS VFS utilities
+    const promiser = await initializeWorkerPromiser(worker);
+    await promiser("import", { filename, bytes, overwrite, storage });
+  } catch (error) {
+    throw createWorkerError(error, "Database import");
+  } finally {
+    // 3. Release the worker
+    worker.terminate();
+  }
+};
+
+/**
+ * Copies one OPFS database file over another using a short-lived worker, e.g. to put a backup back in place.
+ * The target must not be open in another connection while it is written.
+ *
+ * @param from - Source database filename in OPFS
+ * @param to - Target database filename in OPFS, replaced if it exists
+ * @param storage - OPFS backend of both files
+ * @returns Promise resolving when the target has been written
+ */
+export const restoreDatabaseFile = async (
+  from: string,
+  to: string,
+  storage: PersistentStorageBackend,
+): Promise<void> => {
+  // 1. Start a worker just for the restore
+  const worker = new InlineWorker();
+
+  try {
+    // 2. Read the source through SQLite, read-only so a missing file is not created
+    const promiser = await initializeWorkerPromiser(worker);
+    const path = from.replace(/[%?#]/g, (char) => encodeURIComponent(char));
+    await openDatabase(promiser, `file:${path}?mode=ro`, storage);
+    const bytes = await exportDatabase(promiser);
+    await closeDatabase(promiser);
+
+    // 3. Write its image over the target
+    await promiser("import", { filename: to, bytes, overwrite: true, storage });
+  } catch (error) {
+    throw createWorkerError(error, "Database restore");
+  } finally {
+    // 4. Release the worker
+    worker.terminate();
+  }
+};
@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import webSqlite, {
+  type BackupProgress,
+  type Database,
+  type PersistentStorageBackend,
+} from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Node has no OPFS; the file VFS of the worker's in-memory file system stands in for it.
+ */
+const NODE_STORAGE = "unix-none" as PersistentStorageBackend;
+
+/**
+ * Opens a database holding about 25 pages of data.
+ *
+ * @returns Open database with a table of 40 rows
+ */
+const openFilledDatabase = async (): Promise<Database> => {
+  const db = await openMemoryDatabase();
+  await db.exec(`
+    CREATE TABLE blobs (data BLOB);
+    WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 40)
+    INSERT INTO blobs SELECT randomblob(3000) FROM n;
+  `);
+  return db;
+};
+
+/**
+ * Counts the rows of the copy by attaching it to the database that wrote it.
+ *
+ * @param db - Database the copy was written from
+ * @param filename - Filename of the copy
+ * @returns Number of rows in the copy's blobs table
+ */
+const countCopiedRows = async (
+  db: Database,
+  filename: string,
+): Promise<number> => {
+  await db.run(`ATTACH '${filename}' AS copy`);
+  try {
+    const row = await db.queryOne<{ count: number }>(
+      "SELECT count(*) AS count FROM copy.blobs",
+    );
+    return row!.count;
+  } finally {
+    await db.run("DETACH copy");
+  }
+};
+
+describe("online backup", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("copies the database in steps and reports progress after each", async () => {
+    db = await openFilledDatabase();
+    const progress: BackupProgress[] = [];
+
+    const result = await db.backup("copy.sqlite3", {
+      storage: NODE_STORAGE,
+      pagesPerStep: 10,
+      onProgress: (step) => progress.push(step),
+    });
+
+    expect(result).toEqual({
+      filename: "copy.sqlite3",
+      storage: NODE_STORAGE,
+      totalPages: expect.any(Number),
+      restarts: 0,
+    });
+    expect(progress.length).toBe(Math.ceil((result.totalPages - 1) / 10));
+    expect(progress.at(-1)).toEqual({
+      copiedPages: result.totalPages,
+      totalPages: result.totalPages,
+      restarts: 0,
+    });
+    expect(await countCopiedRows(db, "copy.sqlite3")).toBe(40);
+  });
+
+  test("other calls run between steps, and a write restarts the copy", async () => {
+    db = await openFilledDatabase();
+    let write: Promise<unknown> | undefined;
+
+    const result = await db.backup("copy.sqlite3", {
+      storage: NODE_STORAGE,
+      pagesPerStep: 5,
+      onProgress: () => {
+        write ??= db.execute("INSERT INTO blobs VALUES (randomblob(3000))");
+      },
+    });
+    await write;
+
+    expect(result.restarts).toBeGreaterThan(0);
+    expect(await countCopiedRows(db, "copy.sqlite3")).toBe(41);
+  });
+
+  test("a backup overwrites an older, larger copy", async () => {
+    db = await openFilledDatabase();
+    await db.backup("copy.sqlite3", { storage: NODE_STORAGE });
+    await db.execute("DELETE FROM blobs WHERE rowid > 5");
+    await db.run("VACUUM");
+
+    const result = await db.backup("copy.sqlite3", { storage: NODE_STORAGE });
+
+    expect(result.totalPages).toBeLessThan(10);
+    expect(await countCopiedRows(db, "copy.sqlite3")).toBe(5);
+  });
+
+  test("an aborted backup releases its target", async () => {
+    db = await openFilledDatabase();
+    const controller = new AbortController();
+
+    await expect(
+      db.backup("copy.sqlite3", {
+        storage: NODE_STORAGE,
+        pagesPerStep: 5,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      }),
+    ).rejects.toThrow();
+
+    expect(
+      await db.backup("copy.sqlite3", { storage: NODE_STORAGE }),
+    ).toMatchObject({ restarts: 0 });
+    expect(await countCopiedRows(db, "copy.sqlite3")).toBe(40);
+  });
+
+  test("bad options and unavailable backends are refused", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(db.backup("")).rejects.toThrow(
+      "Filename must be a non-empty string",
+    );
+    for (const pagesPerStep of [0, 1.5]) {
+      await expect(db.backup("copy.sqlite3", { pagesPerStep })).rejects.toThrow(
+        "pagesPerStep must be a positive integer",
+      );
+    }
+    // In-memory databases back up to OPFS by default
+    await expect(db.backup("copy.sqlite3")).rejects.toThrow(
+      "no such vfs: opfs",
+    );
+  });
+});
+
+describe("restore", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("refuses to restore a file onto itself or without names", async () => {
+    vi.stubGlobal("navigator", { storage: { getDirectory: () => undefined } });
+
+    await expect(
+      webSqlite.restore("app.sqlite3", "app.sqlite3"),
+    ).rejects.toThrow("Cannot restore a database file onto itself");
+    await expect(webSqlite.restore("", "app.sqlite3")).rejects.toThrow(
+      "Filename must be a non-empty string",
+    );
+  });
+
+  test("requires OPFS", async () => {
+    vi.stubGlobal("navigator", {});
+
+    await expect(
+      webSqlite.restore("backup.sqlite3", "app.sqlite3"),
+    ).rejects.toThrow("Origin Private File System (OPFS) not supported");
+  });
+});
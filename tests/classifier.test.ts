@@ -0,0 +1,296 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { splitSqlStatements, tokenizeSql } from "../src/classifier.js";
+import { classifySql, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Classifies SQL text down to the fields that drive routing.
+ *
+ * @param sql - SQL text
+ * @returns Keyword, operation and row flags of each statement
+ */
+const summarize = (sql: string) =>
+  classifySql(sql).map(({ keyword, operation, returnsRows, returning }) => ({
+    keyword,
+    operation,
+    returnsRows,
+    returning,
+  }));
+
+describe("tokenizer", () => {
+  test("skips whitespace and comments", () => {
+    const tokens = tokenizeSql("-- lead\n/* block; */ SELECT 1 -- tail");
+
+    expect(tokens.map(({ type, text }) => [type, text])).toEqual([
+      ["word", "SELECT"],
+      ["number", "1"],
+    ]);
+  });
+
+  test("reads quoted text, escaped quotes, blobs and parameters as single tokens", () => {
+    const tokens = tokenizeSql(
+      `SELECT 'it''s; here', "a "" b", [c;d], \`e\`, X'ff', ?1, :name, @at, $d, 1.5e3, 0x1F`,
+    );
+
+    expect(
+      tokens
+        .filter((token) => token.type !== "punct")
+        .map(({ type, text }) => [type, text]),
+    ).toEqual([
+      ["word", "SELECT"],
+      ["string", "'it''s; here'"],
+      ["identifier", '"a "" b"'],
+      ["identifier", "[c;d]"],
+      ["identifier", "`e`"],
+      ["string", "X'ff'"],
+      ["parameter", "?1"],
+      ["parameter", ":name"],
+      ["parameter", "@at"],
+      ["parameter", "$d"],
+      ["number", "1.5e3"],
+      ["number", "0x1F"],
+    ]);
+  });
+
+  test("records where each token sits in the text", () => {
+    const sql = "  SELECT  x";
+
+    expect(
+      tokenizeSql(sql).map(({ start, end }) => sql.slice(start, end)),
+    ).toEqual(["SELECT", "x"]);
+  });
+});
+
+describe("statement splitter", () => {
+  /**
+   * Splits SQL text and rebuilds the text of each statement.
+   *
+   * @param sql - SQL text
+   * @returns Statement texts without their terminating semicolons
+   */
+  const split = (sql: string) =>
+    splitSqlStatements(sql).map((tokens) =>
+      sql.slice(tokens[0].start, tokens[tokens.length - 1].end),
+    );
+
+  test("semicolons in strings, identifiers and comments do not split", () => {
+    expect(
+      split("SELECT ';' AS a, \"b;c\" FROM t; -- not; here\nSELECT 2 /* ; */;"),
+    ).toEqual(["SELECT ';' AS a, \"b;c\" FROM t", "SELECT 2"]);
+  });
+
+  test("empty statements and unterminated tails are handled", () => {
+    expect(split(";; SELECT 1;;\n  ; SELECT 2")).toEqual([
+      "SELECT 1",
+      "SELECT 2",
+    ]);
+    expect(split("  -- only a comment\n")).toEqual([]);
+    expect(split("SELECT 'unterminated; still one")).toEqual([
+      "SELECT 'unterminated; still one",
+    ]);
+  });
+
+  test("trigger bodies stay in one statement, including CASE ... END", () => {
+    const trigger = `CREATE TEMP TRIGGER IF NOT EXISTS audit AFTER INSERT ON t BEGIN
+      INSERT INTO log VALUES (CASE WHEN new.x > 0 THEN 'pos' ELSE 'neg' END);
+      UPDATE t SET seen = 1 WHERE rowid = new.rowid;
+    END`;
+
+    expect(split(`${trigger}; SELECT 1`)).toEqual([trigger, "SELECT 1"]);
+  });
+
+  test("BEGIN and CASE outside triggers do not open a block", () => {
+    expect(
+      split(
+        "BEGIN; SELECT CASE WHEN 1 THEN 2 END; COMMIT; SELECT 'trigger'; END",
+      ),
+    ).toEqual([
+      "BEGIN",
+      "SELECT CASE WHEN 1 THEN 2 END",
+      "COMMIT",
+      "SELECT 'trigger'",
+      "END",
+    ]);
+  });
+});
+
+describe("classifier", () => {
+  test("leading comments do not hide the statement", () => {
+    expect(summarize("-- recent\n/* users */ SELECT 1")).toEqual([
+      {
+        keyword: "SELECT",
+        operation: "select",
+        returnsRows: true,
+        returning: false,
+      },
+    ]);
+  });
+
+  test("CTEs are classified by the statement after them", () => {
+    expect(
+      summarize(`
+        WITH RECURSIVE
+          a(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM a WHERE n < 3),
+          b AS (VALUES (1))
+        SELECT * FROM a;
+        WITH gone AS (SELECT id FROM t WHERE old) DELETE FROM t WHERE id IN gone;
+        WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x RETURNING id
+      `),
+    ).toEqual([
+      {
+        keyword: "SELECT",
+        operation: "select",
+        returnsRows: true,
+        returning: false,
+      },
+      {
+        keyword: "DELETE",
+        operation: "delete",
+        returnsRows: false,
+        returning: false,
+      },
+      {
+        keyword: "INSERT",
+        operation: "insert",
+        returnsRows: true,
+        returning: true,
+      },
+    ]);
+  });
+
+  test("modifications return rows only with a top-level RETURNING", () => {
+    expect(
+      summarize(`
+        INSERT INTO t VALUES (1) RETURNING *;
+        REPLACE INTO t VALUES (1);
+        INSERT INTO t VALUES (1) ON CONFLICT (id) DO UPDATE SET x = excluded.x;
+        UPDATE t SET x = (SELECT returning FROM r);
+        DELETE FROM t WHERE id = 1 RETURNING id, x
+      `).map(({ operation, returning }) => [operation, returning]),
+    ).toEqual([
+      ["insert", true],
+      ["insert", false],
+      ["insert", false],
+      ["update", false],
+      ["delete", true],
+    ]);
+  });
+
+  test("VALUES, PRAGMA and EXPLAIN return rows", () => {
+    expect(
+      summarize(`
+        VALUES (1), (2);
+        PRAGMA table_info(t);
+        EXPLAIN QUERY PLAN DELETE FROM t;
+        EXPLAIN SELECT 1
+      `),
+    ).toEqual([
+      {
+        keyword: "VALUES",
+        operation: "select",
+        returnsRows: true,
+        returning: false,
+      },
+      {
+        keyword: "PRAGMA",
+        operation: "utility",
+        returnsRows: true,
+        returning: false,
+      },
+      {
+        keyword: "EXPLAIN",
+        operation: "utility",
+        returnsRows: true,
+        returning: false,
+      },
+      {
+        keyword: "EXPLAIN",
+        operation: "utility",
+        returnsRows: true,
+        returning: false,
+      },
+    ]);
+  });
+
+  test("schema and utility statements return no rows", () => {
+    expect(
+      summarize(`
+        create table t (x);
+        ALTER TABLE t ADD y;
+        DROP INDEX IF EXISTS i;
+        VACUUM;
+        ATTACH DATABASE ':memory:' AS aux;
+        BEGIN IMMEDIATE
+      `).map(({ keyword, operation, returnsRows }) => [
+        keyword,
+        operation,
+        returnsRows,
+      ]),
+    ).toEqual([
+      ["CREATE", "ddl", false],
+      ["ALTER", "ddl", false],
+      ["DROP", "ddl", false],
+      ["VACUUM", "utility", false],
+      ["ATTACH", "utility", false],
+      ["BEGIN", "utility", false],
+    ]);
+  });
+
+  test("statement text and offsets point into the input", () => {
+    const sql = "-- setup\nSELECT 1;\n  SELECT 2 ;";
+
+    expect(classifySql(sql).map(({ sql, start }) => [sql, start])).toEqual([
+      ["SELECT 1", 9],
+      ["SELECT 2", 21],
+    ]);
+  });
+});
+
+describe("routing by statement kind", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("query reads every statement kind that returns rows", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (id INTEGER PRIMARY KEY, x)");
+
+    expect(
+      await db.query(
+        "-- totals\nWITH a(n) AS (VALUES (1), (2)) SELECT sum(n) AS total FROM a",
+      ),
+    ).toEqual([{ total: 3 }]);
+    expect(
+      (await db.query<{ name: string }>("PRAGMA table_info(t)")).map(
+        (column) => column.name,
+      ),
+    ).toEqual(["id", "x"]);
+    expect(await db.query("VALUES (1, 'a')")).toEqual([
+      { column1: 1, column2: "a" },
+    ]);
+    expect(
+      await db.query("INSERT INTO t (x) VALUES (?) RETURNING id, x", ["a"]),
+    ).toEqual([{ id: 1, x: "a" }]);
+    expect(
+      (await db.query("EXPLAIN QUERY PLAN SELECT * FROM t")).length,
+    ).toBeGreaterThan(0);
+  });
+
+  test("methods refuse statements of the wrong kind", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    await expect(db.query("DELETE FROM t")).rejects.toThrow(
+      "Expected a statement returning rows (SELECT, VALUES, PRAGMA, EXPLAIN or RETURNING), got DELETE",
+    );
+    await expect(db.query("SELECT 1; SELECT 2")).rejects.toThrow(
+      "Expected a single statement, got 2; use run() for scripts",
+    );
+    await expect(db.query("-- nothing here")).rejects.toThrow(
+      "No SQL statement found",
+    );
+    await expect(db.execute("SELECT 1")).rejects.toThrow(
+      "Expected INSERT/UPDATE/DELETE statement, got SELECT",
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  codecs,
+  WebSQLiteError,
+  type Database,
+  type ValueCodec,
+} from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+describe("value codecs", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("built-in conversions apply without codecs", async () => {
+    db = await openMemoryDatabase();
+    const at = new Date("2024-05-01T12:00:00.000Z");
+
+    const row = await db.queryOne("SELECT ? AS at, ? AS done, ? AS payload", [
+      at,
+      true,
+      { tags: ["a"] },
+    ]);
+
+    expect(row).toEqual({
+      at: "2024-05-01T12:00:00.000Z",
+      done: 1,
+      payload: '{"tags":["a"]}',
+    });
+  });
+
+  test("integers beyond 2^53 are read as bigint", async () => {
+    db = await openMemoryDatabase();
+
+    const row = await db.queryOne<{ big: bigint; small: number }>(
+      "SELECT ? AS big, 42 AS small",
+      [2n ** 60n],
+    );
+
+    expect(row).toEqual({ big: 2n ** 60n, small: 42 });
+  });
+
+  test("declared types pick decoders, case-insensitively and ignoring size", async () => {
+    db = await openMemoryDatabase({
+      codecs: {
+        types: {
+          datetime: codecs.date,
+          BOOLEAN: codecs.boolean,
+          JSON: codecs.json,
+        },
+      },
+    });
+    await db.run(
+      "CREATE TABLE events (at DateTime, done BOOLEAN, payload JSON(100), note TEXT)",
+    );
+    const at = new Date("2024-05-01T12:00:00.000Z");
+    await db.execute("INSERT INTO events VALUES (?, ?, ?, ?)", [
+      at,
+      false,
+      { tags: ["a", "b"] },
+      null,
+    ]);
+
+    const event = await db.queryOne("SELECT * FROM events");
+
+    expect(event).toEqual({
+      at,
+      done: false,
+      payload: { tags: ["a", "b"] },
+      note: null,
+    });
+  });
+
+  test("column mappings win over declared types and can turn decoding off", async () => {
+    db = await openMemoryDatabase({
+      codecs: { types: { INTEGER: codecs.boolean } },
+    });
+    await db.run("CREATE TABLE t (flag INTEGER, count INTEGER)");
+    await db.execute("INSERT INTO t VALUES (1, 5)");
+
+    const row = await db.queryOne("SELECT flag, count FROM t", [], {
+      codecs: { columns: { count: {} } },
+    });
+
+    expect(row).toEqual({ flag: true, count: 5 });
+  });
+
+  test("per-call codecs decode computed columns", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (at INTEGER)");
+    await db.execute("INSERT INTO t VALUES (?), (?)", [1000, 2000]);
+
+    const row = await db.queryOne("SELECT max(at) AS latest FROM t", [], {
+      codecs: { columns: { latest: codecs.epochDate } },
+    });
+
+    expect(row).toEqual({ latest: new Date(2000) });
+  });
+
+  test("encoders run before the built-in conversions, per-call ones first", async () => {
+    const cents: ValueCodec<{ cents: number }> = {
+      accepts: (value): value is { cents: number } =>
+        typeof value === "object" && value !== null && "cents" in value,
+      encode: (value) => value.cents,
+    };
+    db = await openMemoryDatabase({
+      codecs: { encoders: [codecs.epochDate, cents] },
+    });
+    const at = new Date(5000);
+
+    expect(
+      await db.queryOne("SELECT ? AS price, ? AS at", [{ cents: 250 }, at]),
+    ).toEqual({ price: 250, at: 5000 });
+    expect(
+      await db.queryOne("SELECT ? AS at", [at], {
+        codecs: { encoders: [codecs.date] },
+      }),
+    ).toEqual({ at: at.toISOString() });
+  });
+
+  test("decoders apply to array rows and the rows of every query form", async () => {
+    db = await openMemoryDatabase({ codecs: { types: { JSON: codecs.json } } });
+    await db.run("CREATE TABLE docs (body JSON)");
+    await db.execute("INSERT INTO docs VALUES (?)", [{ a: 1 }]);
+
+    const meta = await db.queryWithMeta<unknown[]>(
+      "SELECT body FROM docs",
+      [],
+      { rowMode: "array" },
+    );
+    expect(meta.rows).toEqual([[{ a: 1 }]]);
+
+    const rows: unknown[] = [];
+    for await (const row of db.iterate("SELECT body FROM docs")) {
+      rows.push(row);
+    }
+    expect(rows).toEqual([{ body: { a: 1 } }]);
+  });
+
+  test("binary data round-trips", async () => {
+    db = await openMemoryDatabase();
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+
+    const row = await db.queryOne<{ a: Uint8Array; b: Uint8Array }>(
+      "SELECT ? AS a, ? AS b",
+      [bytes, bytes.buffer],
+    );
+
+    expect(Array.from(row!.a)).toEqual([0, 1, 254, 255]);
+    expect(Array.from(row!.b)).toEqual([0, 1, 254, 255]);
+  });
+});
+
+describe("parameter validation", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("values without a storable form are refused before reaching the worker", async () => {
+    db = await openMemoryDatabase();
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+    }
+
+    for (const value of [new Map(), new Set([1]), new Point(1, 2)]) {
+      await expect(
+        db.query("SELECT ? AS value", [value]),
+      ).rejects.toBeInstanceOf(WebSQLiteError);
+    }
+    await expect(
+      db.query("SELECT ? AS value", [new Point(1, 2)]),
+    ).rejects.toThrow("Cannot bind a Point");
+    await expect(
+      db.query("SELECT ? AS value", [(() => 1) as never]),
+    ).rejects.toThrow("Invalid parameter types");
+    await expect(
+      db.query("SELECT :value AS value", new Map() as never),
+    ).rejects.toThrow(WebSQLiteError);
+  });
+
+  test("an encoder can make an otherwise refused value bindable", async () => {
+    db = await openMemoryDatabase({
+      codecs: {
+        encoders: [
+          {
+            accepts: (value): value is Set<number> => value instanceof Set,
+            encode: (value: Set<number>) => [...value].join(","),
+          },
+        ],
+      },
+    });
+
+    expect(await db.queryOne("SELECT ? AS value", [new Set([1, 2])])).toEqual({
+      value: "1,2",
+    });
+  });
+});
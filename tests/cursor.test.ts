@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from "vitest";
+import type { Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Fills a table with the integers 1..count.
+ *
+ * @param db - Database to fill
+ * @param count - Number of rows
+ */
+const createNumbers = async (db: Database, count: number): Promise<void> => {
+  await db.run(
+    `CREATE TABLE numbers AS WITH RECURSIVE c(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM c WHERE n < ${count}) SELECT n FROM c`,
+  );
+};
+
+describe("iterate", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("streams every row in order across batches", async () => {
+    db = await openMemoryDatabase();
+    await createNumbers(db, 250);
+
+    const seen: number[] = [];
+    for await (const row of db.iterate<{ n: number }>(
+      "SELECT n FROM numbers ORDER BY n",
+      [],
+      { batchSize: 100 },
+    )) {
+      seen.push(row.n);
+    }
+
+    expect(seen).toHaveLength(250);
+    expect(seen[0]).toBe(1);
+    expect(seen[249]).toBe(250);
+  });
+
+  test("breaking out early releases the worker-side statement", async () => {
+    db = await openMemoryDatabase();
+    await createNumbers(db, 50);
+
+    for await (const row of db.iterate<{ n: number }>(
+      "SELECT n FROM numbers",
+      [],
+      { batchSize: 10 },
+    )) {
+      if (row.n === 3) break;
+    }
+
+    // A statement still reading the table would make this fail with "database table is locked"
+    await expect(db.run("DROP TABLE numbers")).resolves.toBeUndefined();
+  });
+
+  test("concurrent next() calls share one cursor and get distinct rows", async () => {
+    db = await openMemoryDatabase();
+    await createNumbers(db, 10);
+    const iterator = db.iterate<{ n: number }>(
+      "SELECT n FROM numbers ORDER BY n",
+      [],
+      { batchSize: 3 },
+    );
+
+    const results = await Promise.all([
+      iterator.next(),
+      iterator.next(),
+      iterator.next(),
+      iterator.next(),
+    ]);
+    await iterator.return!();
+
+    expect(results.map((result) => result.value?.n)).toEqual([1, 2, 3, 4]);
+    // A second cursor left open would keep the table locked
+    await expect(db.run("DROP TABLE numbers")).resolves.toBeUndefined();
+  });
+
+  test("an empty result ends right away", async () => {
+    db = await openMemoryDatabase();
+    const iterator = db.iterate("SELECT 1 WHERE 0");
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+  });
+
+  test("rejects bad batch sizes and statements without rows before running", async () => {
+    db = await openMemoryDatabase();
+    expect(() => db.iterate("SELECT 1", [], { batchSize: 0 })).toThrow(
+      "batchSize must be a positive integer",
+    );
+    expect(() => db.iterate("DELETE FROM t")).toThrow(
+      "Expected a statement returning rows",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  BusyError,
+  ConstraintError,
+  WebSQLiteError,
+  type Database,
+} from "../src/main.js";
+import { createWorkerError } from "../src/errors.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Runs a call expected to fail and returns its error.
+ *
+ * @param call - Failing call
+ * @returns The rejection reason
+ */
+const failureOf = (call: Promise<unknown>): Promise<WebSQLiteError> =>
+  call.then(
+    () => {
+      throw new Error("Expected the call to fail");
+    },
+    (error: WebSQLiteError) => error,
+  );
+
+describe("structured errors", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("constraint violations carry their codes, statement and values", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE users (email TEXT UNIQUE NOT NULL)");
+    await db.execute("INSERT INTO users VALUES (?)", ["a@example.com"]);
+
+    const error = await failureOf(
+      db.execute("INSERT INTO users VALUES (?)", ["a@example.com"]),
+    );
+
+    expect(error).toBeInstanceOf(ConstraintError);
+    expect(error).toMatchObject({
+      name: "ConstraintError",
+      kind: "constraint",
+      resultCode: 2067,
+      code: "SQLITE_CONSTRAINT",
+      extendedCode: "SQLITE_CONSTRAINT_UNIQUE",
+      sql: "INSERT INTO users VALUES (?)",
+      parameters: ["a@example.com"],
+    });
+
+    const notNull = await failureOf(
+      db.execute("INSERT INTO users VALUES (NULL)"),
+    );
+    expect(notNull.extendedCode).toBe("SQLITE_CONSTRAINT_NOTNULL");
+  });
+
+  test("bound values are masked when redactErrorParameters is set", async () => {
+    db = await openMemoryDatabase({ redactErrorParameters: true });
+    await db.run("CREATE TABLE secrets (value TEXT UNIQUE)");
+    await db.execute("INSERT INTO secrets VALUES (?)", ["hunter2"]);
+
+    const error = await failureOf(
+      db.execute("INSERT INTO secrets VALUES (:value)", {
+        ":value": "hunter2",
+      }),
+    );
+
+    expect(error.parameters).toEqual({ ":value": "[redacted]" });
+    expect(JSON.stringify(error)).not.toContain("hunter2");
+  });
+
+  test("a table in use by an open cursor reports a busy error", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    await db.execute("INSERT INTO t VALUES (1), (2), (3)");
+
+    for await (const row of db.iterate("SELECT x FROM t", [], {
+      batchSize: 1,
+    })) {
+      expect(row).toEqual({ x: 1 });
+      const error = await failureOf(db.run("DROP TABLE t"));
+      expect(error).toBeInstanceOf(BusyError);
+      expect(error.kind).toBe("busy");
+      break;
+    }
+  });
+
+  test("other SQLite failures have their own kind or fall back to sqlite", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    await db.run("PRAGMA query_only = 1");
+
+    const readonly = await failureOf(db.execute("INSERT INTO t VALUES (1)"));
+    expect(readonly).toMatchObject({
+      kind: "readonly",
+      code: "SQLITE_READONLY",
+    });
+
+    const syntax = await failureOf(db.query("SELECT FROM"));
+    expect(syntax).toBeInstanceOf(WebSQLiteError);
+    expect(syntax).toMatchObject({ kind: "sqlite", code: "SQLITE_ERROR" });
+  });
+
+  test("errors raised by the library itself have no SQLite code", async () => {
+    db = await openMemoryDatabase();
+
+    const error = await failureOf(db.query(""));
+    expect(error).toMatchObject({ kind: "library", code: undefined });
+  });
+});
+
+describe("createWorkerError", () => {
+  test("keeps the codes of an error it wraps again", () => {
+    const inner = createWorkerError(
+      {
+        message: "UNIQUE constraint failed",
+        resultCode: 2067,
+        code: "SQLITE_CONSTRAINT",
+      },
+      "Worker execution",
+      { sql: "INSERT INTO t VALUES (1)" },
+    );
+    const outer = createWorkerError(inner, "SQL execution");
+
+    expect(outer).toBeInstanceOf(ConstraintError);
+    expect(outer.message).toBe(
+      "SQL execution: Worker execution: UNIQUE constraint failed",
+    );
+    expect(outer).toMatchObject({
+      resultCode: 2067,
+      sql: "INSERT INTO t VALUES (1)",
+    });
+    expect(outer.cause).toBe(inner);
+  });
+});
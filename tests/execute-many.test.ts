@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { sql, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+describe("executeMany", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  /**
+   * Opens a database with a tags table whose names are unique.
+   *
+   * @returns Database holding an empty tags table
+   */
+  const openTags = async (): Promise<Database> => {
+    const tags = await openMemoryDatabase();
+    await tags.run(
+      "CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT UNIQUE)",
+    );
+    return tags;
+  };
+
+  test("inserts every row and reports each row ID", async () => {
+    db = await openTags();
+    const names = Array.from({ length: 1000 }, (_, i) => [`tag ${i}`]);
+
+    const result = await db.executeMany(
+      "INSERT INTO tags (name) VALUES (?)",
+      names,
+    );
+
+    expect(result.changes).toBe(1000);
+    expect(result.lastInsertRowids).toHaveLength(1000);
+    expect(result.lastInsertRowids[0]).toBe(1);
+    expect(result.lastInsertRowids[999]).toBe(1000);
+    expect(await db.queryOne("SELECT count(*) AS count FROM tags")).toEqual({
+      count: 1000,
+    });
+  });
+
+  test("rows that insert nothing have no row ID", async () => {
+    db = await openTags();
+
+    const result = await db.executeMany(
+      "INSERT OR IGNORE INTO tags (name) VALUES (?)",
+      [["a"], ["a"], ["b"]],
+    );
+
+    expect(result).toEqual({ changes: 2, lastInsertRowids: [1, null, 2] });
+  });
+
+  test("updates report changes but no row IDs", async () => {
+    db = await openTags();
+    await db.executeMany("INSERT INTO tags (name) VALUES (:name)", [
+      { ":name": "a" },
+      { ":name": "b" },
+    ]);
+
+    const result = await db.executeMany(
+      "UPDATE tags SET name = upper(name) WHERE name = ?",
+      [["a"], ["b"], ["c"]],
+    );
+
+    expect(result).toEqual({
+      changes: 2,
+      lastInsertRowids: [null, null, null],
+    });
+  });
+
+  test("a failing row rolls back the whole batch by default", async () => {
+    db = await openTags();
+
+    await expect(
+      db.executeMany("INSERT INTO tags (name) VALUES (?)", [
+        ["a"],
+        ["b"],
+        ["a"],
+      ]),
+    ).rejects.toThrow("UNIQUE");
+    expect(await db.query("SELECT name FROM tags")).toEqual([]);
+  });
+
+  test("without a transaction the rows before a failure are kept", async () => {
+    db = await openTags();
+
+    await expect(
+      db.executeMany(
+        "INSERT INTO tags (name) VALUES (?)",
+        [["a"], ["b"], ["a"]],
+        { transaction: false },
+      ),
+    ).rejects.toThrow("UNIQUE");
+    expect(await db.query("SELECT name FROM tags ORDER BY id")).toEqual([
+      { name: "a" },
+      { name: "b" },
+    ]);
+  });
+
+  test("accepts fragments without values and refuses those with values", async () => {
+    db = await openTags();
+    const table = sql.identifier("tags");
+
+    await db.executeMany(sql`INSERT INTO ${table} (name) VALUES (?)`, [["x"]]);
+    expect(await db.query("SELECT name FROM tags")).toEqual([{ name: "x" }]);
+    await expect(
+      db.executeMany(sql`INSERT INTO tags (name) VALUES (${"y"})`, [[]]),
+    ).rejects.toThrow("cannot bind values; pass them in rows");
+  });
+
+  test("refuses statements that are not modifications and malformed rows", async () => {
+    db = await openTags();
+
+    await expect(db.executeMany("SELECT 1", [[]])).rejects.toThrow(
+      "Expected INSERT/UPDATE/DELETE statement",
+    );
+    await expect(
+      db.executeMany("INSERT INTO tags (name) VALUES (?)", [
+        ["ok"],
+        [() => "not a value"],
+      ]),
+    ).rejects.toThrow("Invalid parameter types in row 1");
+    await expect(
+      db.executeMany("INSERT INTO tags (name) VALUES (?)", [[new Map()]]),
+    ).rejects.toThrow("Cannot bind a Map");
+  });
+});
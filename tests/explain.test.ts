@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, test } from "vitest";
+import type { Database, QueryPlan } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+const SCHEMA = `
+  CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, team TEXT, age INT);
+  CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INT, total REAL);
+  CREATE INDEX users_email ON users (email);
+`;
+
+describe("explain", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("flags full scans and temporary B-trees and suggests an index", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(SCHEMA);
+
+    const plan = await db.explain(
+      "SELECT * FROM users WHERE team = ? ORDER BY age",
+      ["a"],
+    );
+
+    expect(plan.nodes.map((node) => node.detail)).toEqual([
+      "SCAN users",
+      "USE TEMP B-TREE FOR ORDER BY",
+    ]);
+    expect(plan.issues).toEqual([
+      {
+        kind: "full-scan",
+        detail: "SCAN users",
+        table: "users",
+        message: "Full scan of table users",
+      },
+      {
+        kind: "temp-b-tree",
+        detail: "USE TEMP B-TREE FOR ORDER BY",
+        message: "Temporary B-tree built for ORDER BY",
+      },
+    ]);
+    expect(plan.suggestedIndexes).toEqual([
+      "CREATE INDEX idx_users_team_age ON users (team, age)",
+    ]);
+  });
+
+  test("a query using an index has no issues", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(SCHEMA);
+
+    const plan = await db.explain("SELECT * FROM users WHERE email = ?", [
+      "a@example.com",
+    ]);
+
+    expect(plan.nodes).toEqual([
+      {
+        id: expect.any(Number),
+        parent: 0,
+        detail: "SEARCH users USING INDEX users_email (email=?)",
+        children: [],
+      },
+    ]);
+    expect(plan.issues).toEqual([]);
+    expect(plan.suggestedIndexes).toEqual([]);
+  });
+
+  test("correlated subqueries are flagged and nested under their step", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(SCHEMA);
+
+    const plan = await db.explain(
+      "SELECT u.id, (SELECT sum(total) FROM orders o WHERE o.user_id = u.id) FROM users u",
+    );
+
+    const subquery = plan.nodes.find((node) =>
+      node.detail.startsWith("CORRELATED SCALAR SUBQUERY"),
+    );
+    expect(subquery?.children.map((node) => node.detail)).toEqual(["SCAN o"]);
+    expect(plan.issues.map((issue) => issue.kind)).toEqual([
+      "correlated-subquery",
+      "full-scan",
+    ]);
+    // Aliases are resolved to the table they stand for
+    expect(plan.issues[1]).toMatchObject({
+      table: "orders",
+      message: "Full scan of table orders (as o)",
+    });
+    expect(plan.suggestedIndexes).toEqual([
+      "CREATE INDEX idx_orders_user_id ON orders (user_id)",
+    ]);
+  });
+
+  test("only a single statement returning rows can be explained", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(SCHEMA);
+
+    await expect(db.explain("SELECT 1; DELETE FROM users")).rejects.toThrow();
+    await expect(db.explain("DELETE FROM users")).rejects.toThrow(
+      "Expected a statement returning rows",
+    );
+    expect(await db.query("SELECT count(*) AS count FROM users")).toEqual([
+      { count: 0 },
+    ]);
+  });
+});
+
+describe("diagnostics mode", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("reports each distinct statement with issues once", async () => {
+    const reports: QueryPlan[] = [];
+    db = await openMemoryDatabase({
+      diagnostics: { report: (plan) => reports.push(plan) },
+    });
+    await db.exec(SCHEMA);
+
+    await db.query("SELECT * FROM users WHERE team = ?", ["a"]);
+    await db.query("SELECT * FROM users WHERE team = ?", ["b"]);
+    await db.query("SELECT * FROM users WHERE email = ?", ["c"]);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(reports.map((plan) => plan.sql)).toEqual([
+      "SELECT * FROM users WHERE team = ?",
+    ]);
+    expect(reports[0].suggestedIndexes).toEqual([
+      "CREATE INDEX idx_users_team ON users (team)",
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import webSqlite, { WebSQLiteError, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Header every SQLite database file starts with.
+ */
+const SQLITE_HEADER = "SQLite format 3\u0000";
+
+describe("export", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("returns the whole database as a SQLite image", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE notes (body TEXT)");
+    await db.executeMany(
+      "INSERT INTO notes VALUES (?)",
+      Array.from({ length: 200 }, (_, i) => [`note ${i}`.repeat(20)]),
+    );
+
+    const image = await db.export();
+    const { page_count } = (await db.queryOne<{ page_count: number }>(
+      "PRAGMA page_count",
+    ))!;
+    const { page_size } = (await db.queryOne<{ page_size: number }>(
+      "PRAGMA page_size",
+    ))!;
+
+    expect(image).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(image.subarray(0, 16))).toBe(SQLITE_HEADER);
+    expect(image.byteLength).toBe(page_count * page_size);
+  });
+
+  test("waits for a running transaction and leaves out its changes when it rolls back", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    const before = await db.export();
+
+    const transaction = db.transaction(async (tx) => {
+      await tx.execute("INSERT INTO t VALUES (randomblob(10000))");
+      throw new Error("roll back");
+    });
+    const during = db.export();
+
+    await expect(transaction).rejects.toThrow("roll back");
+    expect((await during).byteLength).toBe(before.byteLength);
+  });
+});
+
+describe("import", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("is refused where OPFS is unavailable", async () => {
+    vi.stubGlobal("navigator", {});
+
+    await expect(
+      webSqlite.import("copy.sqlite3", new Uint8Array(512)),
+    ).rejects.toThrow("Origin Private File System (OPFS) not supported");
+  });
+
+  test("checks its arguments before touching storage", async () => {
+    vi.stubGlobal("navigator", { storage: { getDirectory: () => undefined } });
+
+    await expect(webSqlite.import("", new Uint8Array(512))).rejects.toThrow(
+      "Filename must be a non-empty string",
+    );
+    await expect(
+      webSqlite.import("copy.sqlite3", "bytes" as unknown as Uint8Array),
+    ).rejects.toThrow(WebSQLiteError);
+  });
+});
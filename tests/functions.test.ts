@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { WebSQLiteError, type Database } from "../src/main.js";
+import {
+  crashWorker,
+  openMemoryDatabase,
+  waitUntilOpen,
+} from "./support/database.js";
+
+/**
+ * Turns module source into a URL the worker can import.
+ *
+ * @param source - ES module source
+ * @returns data: URL of the module
+ */
+const moduleUrl = (source: string): string =>
+  `data:text/javascript,${encodeURIComponent(source)}`;
+
+describe("user-defined functions", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("scalar functions run inside the worker", async () => {
+    db = await openMemoryDatabase();
+    await db.createFunction(
+      "slugify",
+      (text) => String(text).toLowerCase().replace(/\W+/g, "-"),
+      { arity: 1, deterministic: true },
+    );
+    await db.createFunction("is_even", (value) => Number(value) % 2 === 0);
+
+    expect(
+      await db.queryOne("SELECT slugify(?) AS slug, is_even(4) AS even", [
+        "Hello World",
+      ]),
+    ).toEqual({ slug: "hello-world", even: 1 });
+  });
+
+  test("deterministic functions can be used in indexes", async () => {
+    db = await openMemoryDatabase();
+    await db.createFunction(
+      "lower_trim",
+      (text) => String(text).trim().toLowerCase(),
+      { arity: 1, deterministic: true },
+    );
+    await db.createFunction("random_tag", () => String(Math.random()), {
+      arity: 0,
+    });
+    await db.run("CREATE TABLE t (name TEXT)");
+
+    await db.run("CREATE INDEX t_name ON t (lower_trim(name))");
+    await expect(
+      db.run("CREATE INDEX t_random ON t (random_tag())"),
+    ).rejects.toThrow("non-deterministic");
+  });
+
+  test("aggregates keep their state across the rows of a group", async () => {
+    db = await openMemoryDatabase();
+    await db.createAggregate<number[]>(
+      "median",
+      {
+        start: () => [],
+        step: (values, value) => [...values, Number(value)],
+        final: (values) =>
+          values.sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? null,
+      },
+      { arity: 1 },
+    );
+    await db.run("CREATE TABLE results (team TEXT, score INTEGER)");
+    await db.execute(
+      "INSERT INTO results VALUES ('a', 1), ('a', 9), ('a', 5), ('b', 2)",
+    );
+
+    expect(
+      await db.query(
+        "SELECT team, median(score) AS median FROM results GROUP BY team ORDER BY team",
+      ),
+    ).toEqual([
+      { team: "a", median: 5 },
+      { team: "b", median: 2 },
+    ]);
+  });
+
+  test("implementations can come from a module", async () => {
+    db = await openMemoryDatabase();
+    const geometry = moduleUrl(`
+      export const square = (x) => x * x;
+      export default { step: (total, x) => (total ?? 0) + x * x };
+    `);
+
+    await db.createFunction("square", { module: geometry, export: "square" });
+    await db.createAggregate("sum_of_squares", { module: geometry });
+
+    expect(
+      await db.queryOne(
+        "SELECT square(3) AS squared, (SELECT sum_of_squares(value) FROM json_each('[1, 2, 3]')) AS total",
+      ),
+    ).toEqual({ squared: 9, total: 14 });
+    await expect(
+      db.createFunction("missing", { module: geometry, export: "cube" }),
+    ).rejects.toThrow("has no export named cube");
+  });
+
+  test("errors thrown by a function fail the statement", async () => {
+    db = await openMemoryDatabase();
+    const captured = 42;
+    await db.createFunction("fails", () => {
+      throw new Error("no such luck");
+    });
+    // Closures are not captured: the function runs from its source in the worker
+    await db.createFunction("uses_closure", () => captured);
+
+    await expect(db.query("SELECT fails()")).rejects.toThrow("no such luck");
+    await expect(db.query("SELECT uses_closure()")).rejects.toThrow(
+      WebSQLiteError,
+    );
+  });
+
+  test("functions that cannot be serialized and bad options are refused", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(
+      db.createFunction("max_of", Math.max as never),
+    ).rejects.toThrow("cannot be serialized");
+    await expect(
+      db.createFunction("bound", ((x: unknown) => String(x)).bind(null)),
+    ).rejects.toThrow("cannot be serialized");
+    await expect(db.createFunction("", () => 1)).rejects.toThrow(
+      "Function name must be a non-empty string",
+    );
+    await expect(
+      db.createFunction("f", () => 1, { arity: -2 }),
+    ).rejects.toThrow("Arity must be an integer");
+  });
+
+  test("functions are registered again after the worker is replaced", async () => {
+    db = await openMemoryDatabase({ reconnect: true });
+    await db.createFunction("answer", () => 42, { arity: 0 });
+
+    await crashWorker(db);
+    await waitUntilOpen(db);
+
+    expect(await db.queryOne("SELECT answer() AS answer")).toEqual({
+      answer: 42,
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { WebSQLiteAbortError, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Query that never finishes on its own.
+ */
+const ENDLESS_QUERY =
+  "WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT count(*) FROM c";
+
+describe("timeouts and cancellation", () => {
+  let db: Database;
+
+  afterEach(async () => {
+    await db?.close();
+    vi.unstubAllGlobals();
+  });
+
+  test("a call running past its timeout is interrupted", async () => {
+    db = await openMemoryDatabase();
+
+    const error = await db
+      .query(ENDLESS_QUERY, [], { timeout: 200 })
+      .catch((failure: unknown) => failure);
+
+    expect(error).toBeInstanceOf(WebSQLiteAbortError);
+    expect(error).toMatchObject({ reason: "timeout", kind: "aborted" });
+    // The worker stopped the statement, so the connection answers again
+    expect(await db.queryOne("SELECT 1 AS one")).toEqual({ one: 1 });
+  });
+
+  test("the default timeout from webSqlite() applies to every call", async () => {
+    db = await openMemoryDatabase({ timeout: 200 });
+
+    await expect(db.query(ENDLESS_QUERY)).rejects.toThrow(
+      "Operation timed out after 200ms",
+    );
+  });
+
+  test("an already aborted signal fails the call without running it", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    await expect(
+      db.execute("INSERT INTO t VALUES (1)", [], {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ reason: "aborted" });
+    expect(await db.query("SELECT x FROM t")).toEqual([]);
+  });
+
+  test("aborting interrupts the running statement through the shared flag", async () => {
+    // The flag needs cross-origin isolation, which worker threads do not check
+    vi.stubGlobal("crossOriginIsolated", true);
+    db = await openMemoryDatabase({ timeout: 0 });
+    const controller = new AbortController();
+
+    const running = db.query(ENDLESS_QUERY, [], { signal: controller.signal });
+    setTimeout(() => controller.abort(), 200);
+
+    await expect(running).rejects.toMatchObject({ reason: "aborted" });
+    // Without the interrupt the endless query would hold the worker forever
+    expect(await db.queryOne("SELECT 1 AS one")).toEqual({ one: 1 });
+  });
+
+  test("an aborted transaction is rolled back", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    const controller = new AbortController();
+
+    await expect(
+      db.transaction(
+        async (tx) => {
+          await tx.execute("INSERT INTO t VALUES (1)");
+          controller.abort();
+          await tx.execute("INSERT INTO t VALUES (2)");
+        },
+        { signal: controller.signal },
+      ),
+    ).rejects.toBeInstanceOf(WebSQLiteAbortError);
+    expect(await db.query("SELECT x FROM t")).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { DatabaseClosedError, type Database } from "../src/main.js";
+import { crashWorker, openMemoryDatabase } from "./support/database.js";
+import InlineWorker from "./support/inline-worker.js";
+
+describe("closing a database", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test("terminates the worker and reports the closed state", async () => {
+    const terminate = vi.spyOn(InlineWorker.prototype, "terminate");
+    const db = await openMemoryDatabase();
+    let closeEvents = 0;
+    db.on("close", () => closeEvents++);
+
+    await db.close();
+
+    expect(db.state).toBe("closed");
+    expect(closeEvents).toBe(1);
+    expect(terminate).toHaveBeenCalledTimes(1);
+  });
+
+  test("is idempotent", async () => {
+    const db = await openMemoryDatabase();
+
+    const first = db.close();
+    const second = db.close();
+
+    expect(second).toBe(first);
+    await first;
+    await expect(db.close()).resolves.toBeUndefined();
+  });
+
+  test("lets queued calls finish and refuses later ones", async () => {
+    const db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    const queued = db.execute("INSERT INTO t VALUES (1)");
+    const closing = db.close();
+
+    await expect(queued).resolves.toMatchObject({ changes: 1 });
+    await closing;
+    await expect(db.query("SELECT x FROM t")).rejects.toBeInstanceOf(
+      DatabaseClosedError,
+    );
+  });
+
+  test("waits for a running transaction", async () => {
+    const db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    let committed = false;
+
+    const transaction = db.transaction(async (tx) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await tx.execute("INSERT INTO t VALUES (1)");
+      committed = true;
+    });
+    await db.close();
+
+    expect(committed).toBe(true);
+    await transaction;
+  });
+
+  test("works after the worker crashed", async () => {
+    const db = await openMemoryDatabase();
+    await crashWorker(db);
+
+    await db.close();
+    expect(db.state).toBe("closed");
+  });
+
+  test("runs at the end of an await using block", async () => {
+    let db: Database | undefined;
+    {
+      await using scoped = await openMemoryDatabase();
+      db = scoped;
+      await db.run("CREATE TABLE t (x)");
+    }
+
+    expect(db.state).toBe("closed");
+  });
+});
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  createConnectionManager,
+  DatabaseClosedError,
+  type ConnectionManager,
+  type Database,
+} from "../src/main.js";
+import {
+  crashWorker,
+  openMemoryDatabase,
+  waitUntilOpen,
+} from "./support/database.js";
+import { startedWorkers } from "./support/inline-worker.js";
+
+describe("connection manager", () => {
+  let manager: ConnectionManager;
+
+  afterEach(() => manager?.close());
+
+  test("opens several independent databases on one worker", async () => {
+    const workersBefore = startedWorkers.length;
+    manager = await createConnectionManager();
+
+    const first = await manager.open("first.sqlite3", { storage: "memory" });
+    const second = await manager.open("second.sqlite3", { storage: "memory" });
+    await first.run("CREATE TABLE t (x)");
+    await first.execute("INSERT INTO t VALUES ('first')");
+    await second.run("CREATE TABLE t (x)");
+
+    expect(startedWorkers.length - workersBefore).toBe(1);
+    expect(await first.query("SELECT x FROM t")).toEqual([{ x: "first" }]);
+    expect(await second.query("SELECT x FROM t")).toEqual([]);
+    expect(manager.databases).toEqual([first, second]);
+  });
+
+  test("closing one database leaves the others and the worker running", async () => {
+    manager = await createConnectionManager();
+    const first = await manager.open("first.sqlite3", { storage: "memory" });
+    const second = await manager.open("second.sqlite3", { storage: "memory" });
+
+    await first.close();
+
+    expect(manager.databases).toEqual([second]);
+    expect(await second.queryOne("SELECT 1 AS one")).toEqual({ one: 1 });
+  });
+
+  test("closing the manager closes every database and refuses new ones", async () => {
+    manager = await createConnectionManager();
+    const db = await manager.open("db.sqlite3", { storage: "memory" });
+
+    await manager.close();
+
+    expect(db.state).toBe("closed");
+    expect(manager.databases).toEqual([]);
+    await expect(
+      manager.open("late.sqlite3", { storage: "memory" }),
+    ).rejects.toBeInstanceOf(DatabaseClosedError);
+  });
+
+  test("every database is reopened after the shared worker crashes", async () => {
+    manager = await createConnectionManager({ reconnect: true });
+    const migrations = [{ version: 1, up: "CREATE TABLE t (x)" }];
+    const first = await manager.open("first.sqlite3", {
+      storage: "memory",
+      migrations,
+    });
+    const second = await manager.open("second.sqlite3", {
+      storage: "memory",
+      migrations,
+    });
+
+    await crashWorker(first);
+    await waitUntilOpen(first);
+    await waitUntilOpen(second);
+
+    expect(await first.query("SELECT x FROM t")).toEqual([]);
+    expect(await second.query("SELECT x FROM t")).toEqual([]);
+  });
+});
+
+describe("attach", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("attached databases can be queried together with the main one", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE orders (product_id INTEGER)");
+    await db.execute("INSERT INTO orders VALUES (1)");
+
+    await db.attach("ref", "reference.sqlite3");
+    await db.run("CREATE TABLE ref.products (id INTEGER, name TEXT)");
+    await db.execute("INSERT INTO ref.products VALUES (1, 'lamp')");
+
+    expect(
+      await db.query(
+        "SELECT p.name FROM orders o JOIN ref.products p ON p.id = o.product_id",
+      ),
+    ).toEqual([{ name: "lamp" }]);
+
+    await db.detach("ref");
+    await expect(db.query("SELECT * FROM ref.products")).rejects.toThrow(
+      "no such table",
+    );
+  });
+
+  test("aliases with special characters are quoted", async () => {
+    db = await openMemoryDatabase();
+
+    await db.attach('my "odd" alias', "odd.sqlite3");
+    expect(
+      await db.query<{ name: string }>("SELECT name FROM pragma_database_list"),
+    ).toContainEqual({ name: 'my "odd" alias' });
+  });
+
+  test("reserved and empty aliases are refused", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(db.attach("main", "x.sqlite3")).rejects.toThrow(
+      'Alias "main" is reserved by SQLite',
+    );
+    await expect(db.attach("TEMP", "x.sqlite3")).rejects.toThrow("reserved");
+    await expect(db.attach("", "x.sqlite3")).rejects.toThrow(
+      "Alias must be a non-empty string",
+    );
+    await expect(db.attach("ref", "")).rejects.toThrow(
+      "Filename must be a non-empty string",
+    );
+  });
+
+  test("attachments are restored after the worker is replaced", async () => {
+    db = await openMemoryDatabase({ reconnect: true });
+    await db.attach("scratch", "scratch.sqlite3");
+
+    await crashWorker(db);
+    await waitUntilOpen(db);
+
+    expect(
+      await db.query<{ name: string }>("SELECT name FROM pragma_database_list"),
+    ).toContainEqual({ name: "scratch" });
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { WebSQLiteError, type Database, type Migration } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "create users",
+    up: `
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT);
+      CREATE INDEX users_name ON users (name);
+    `,
+  },
+  {
+    version: 2,
+    up: async (tx) => {
+      await tx.run("ALTER TABLE users ADD COLUMN email TEXT");
+    },
+  },
+];
+
+/**
+ * Reads the schema version stored in PRAGMA user_version.
+ *
+ * @param db - Database to read
+ * @returns Stored version
+ */
+const readUserVersion = async (db: Database): Promise<number> => {
+  const row = await db.queryOne<{ user_version: number }>(
+    "PRAGMA user_version",
+  );
+  return row!.user_version;
+};
+
+describe("migrations", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("apply pending steps and record the version", async () => {
+    db = await openMemoryDatabase();
+
+    expect(await db.migrate(migrations.slice(0, 1))).toEqual({
+      fromVersion: 0,
+      toVersion: 1,
+      applied: [{ version: 1, name: "create users" }],
+    });
+    expect(await db.migrate(migrations)).toEqual({
+      fromVersion: 1,
+      toVersion: 2,
+      applied: [{ version: 2, name: undefined }],
+    });
+    expect(await readUserVersion(db)).toBe(2);
+    await db.execute("INSERT INTO users (name, email) VALUES ('a', 'b')");
+  });
+
+  test("running again applies nothing", async () => {
+    db = await openMemoryDatabase();
+    await db.migrate(migrations);
+
+    expect(await db.migrate(migrations)).toEqual({
+      fromVersion: 2,
+      toVersion: 2,
+      applied: [],
+    });
+  });
+
+  test("a failing step leaves the schema and version untouched", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(
+      db.migrate([
+        ...migrations,
+        { version: 3, up: "ALTER TABLE missing ADD COLUMN x" },
+      ]),
+    ).rejects.toThrow("Migration 3");
+
+    expect(await readUserVersion(db)).toBe(0);
+    expect(
+      await db.query("SELECT name FROM sqlite_master WHERE type = 'table'"),
+    ).toEqual([]);
+  });
+
+  test("a database newer than the latest migration is refused", async () => {
+    db = await openMemoryDatabase();
+    await db.run("PRAGMA user_version = 5");
+
+    await expect(db.migrate(migrations)).rejects.toThrow(
+      "newer than the latest known migration 2",
+    );
+    expect(await readUserVersion(db)).toBe(5);
+  });
+
+  test("malformed migration lists are refused before anything runs", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(db.migrate([migrations[1], migrations[0]])).rejects.toThrow(
+      WebSQLiteError,
+    );
+    await expect(
+      db.migrate([{ version: 1.5, up: "SELECT 1" }]),
+    ).rejects.toThrow("positive integers in ascending order");
+    await expect(
+      db.migrate([{ version: 1, up: 42 as unknown as string }]),
+    ).rejects.toThrow("must provide SQL or a function");
+    expect(await readUserVersion(db)).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { createConnectionManager, type Database } from "../src/main.js";
+import {
+  crashWorker,
+  openMemoryDatabase,
+  waitUntilOpen,
+} from "./support/database.js";
+
+declare module "../src/types.js" {
+  interface PluginCommands {
+    orderTotal: { args: { month: string }; result: { total: number } };
+    slowEcho: { args: string; result: string };
+    fails: { args: undefined; result: never };
+  }
+}
+
+/**
+ * Turns module source into a URL the worker can import.
+ *
+ * @param source - ES module source
+ * @returns data: URL of the module
+ */
+const moduleUrl = (source: string): string =>
+  `data:text/javascript,${encodeURIComponent(source)}`;
+
+const reportsPlugin = moduleUrl(`
+  export default {
+    commands: {
+      orderTotal: ({ month }, { db }) => ({
+        total: db.selectValue(
+          "SELECT coalesce(sum(amount), 0) FROM orders WHERE month = ?",
+          [month],
+        ),
+      }),
+      slowEcho: async (text) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return text;
+      },
+      fails: () => {
+        throw new Error("report failed");
+      },
+    },
+  };
+`);
+
+describe("worker plugins", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("commands run against the calling database in the worker", async () => {
+    db = await openMemoryDatabase({ plugins: [reportsPlugin] });
+    await db.run("CREATE TABLE orders (month TEXT, amount INTEGER)");
+    await db.execute(
+      "INSERT INTO orders VALUES ('2024-05', 10), ('2024-05', 5), ('2024-06', 1)",
+    );
+
+    expect(await db.call("orderTotal", { month: "2024-05" })).toEqual({
+      total: 15,
+    });
+    expect(await db.call("slowEcho", "hello")).toBe("hello");
+  });
+
+  test("errors thrown by a command and unknown commands fail the call", async () => {
+    db = await openMemoryDatabase({ plugins: [reportsPlugin] });
+
+    await expect(db.call("fails")).rejects.toThrow("report failed");
+    await expect(db.call("missing" as "fails")).rejects.toThrow(
+      "Unknown plugin command: missing",
+    );
+  });
+
+  test("commands on a shared worker see the database that called them", async () => {
+    const manager = await createConnectionManager({ plugins: [reportsPlugin] });
+    try {
+      const may = await manager.open("may.sqlite3", { storage: "memory" });
+      const june = await manager.open("june.sqlite3", { storage: "memory" });
+      for (const [month, target] of [
+        ["2024-05", may],
+        ["2024-06", june],
+      ] as const) {
+        await target.run("CREATE TABLE orders (month TEXT, amount INTEGER)");
+        await target.execute("INSERT INTO orders VALUES (?, 7)", [month]);
+      }
+
+      expect(await may.call("orderTotal", { month: "2024-05" })).toEqual({
+        total: 7,
+      });
+      expect(await june.call("orderTotal", { month: "2024-05" })).toEqual({
+        total: 0,
+      });
+    } finally {
+      await manager.close();
+    }
+  });
+
+  test("malformed and conflicting plugins fail to load", async () => {
+    await expect(
+      openMemoryDatabase({
+        plugins: [moduleUrl("export default { name: 'no commands' };")],
+      }),
+    ).rejects.toThrow("must export a default object with a commands property");
+    await expect(
+      openMemoryDatabase({
+        plugins: [moduleUrl("export default { commands: { broken: 1 } };")],
+      }),
+    ).rejects.toThrow("Plugin command broken");
+    await expect(
+      openMemoryDatabase({
+        plugins: [
+          reportsPlugin,
+          moduleUrl(
+            "export default { commands: { slowEcho: (text) => text } };",
+          ),
+        ],
+      }),
+    ).rejects.toThrow("Plugin command slowEcho is already registered");
+    await expect(
+      openMemoryDatabase({ plugins: [42 as unknown as string] }),
+    ).rejects.toThrow("Plugins must be an array of module URLs");
+  });
+
+  test("plugins are loaded again after the worker is replaced", async () => {
+    db = await openMemoryDatabase({
+      plugins: [reportsPlugin],
+      reconnect: true,
+    });
+
+    await crashWorker(db);
+    await waitUntilOpen(db);
+
+    expect(await db.call("slowEcho", "still here")).toBe("still here");
+  });
+});
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, test } from "vitest";
+import type { Database, QueryRowMode } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+describe("queryWithMeta", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  /**
+   * Opens a database with users and their orders.
+   *
+   * @returns Database holding one user with one order
+   */
+  const openShop = async (): Promise<Database> => {
+    const shop = await openMemoryDatabase();
+    await shop.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name VARCHAR(40));
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total REAL);
+      INSERT INTO users VALUES (1, 'Ann');
+      INSERT INTO orders VALUES (10, 1, 9.5);
+    `);
+    return shop;
+  };
+
+  test("describes columns with their declared types", async () => {
+    db = await openShop();
+
+    const result = await db.queryWithMeta(
+      "SELECT name AS customer, total, total * 2 AS doubled FROM users JOIN orders ON user_id = users.id",
+    );
+
+    expect(result.columns).toEqual([
+      { name: "customer", declaredType: "VARCHAR(40)" },
+      { name: "total", declaredType: "REAL" },
+      { name: "doubled", declaredType: null },
+    ]);
+    expect(result.rows).toEqual([{ customer: "Ann", total: 9.5, doubled: 19 }]);
+  });
+
+  test("columns are described even when no rows match", async () => {
+    db = await openShop();
+
+    const result = await db.queryWithMeta(
+      "SELECT id, name FROM users WHERE id = ?",
+      [42],
+    );
+
+    expect(result.columns.map((column) => column.name)).toEqual(["id", "name"]);
+    expect(result.rows).toEqual([]);
+  });
+
+  test("array rows keep duplicate column names", async () => {
+    db = await openShop();
+
+    const result = await db.queryWithMeta<unknown[]>(
+      "SELECT users.id, orders.id FROM users JOIN orders ON user_id = users.id",
+      [],
+      { rowMode: "array" },
+    );
+
+    expect(result.columns.map((column) => column.name)).toEqual(["id", "id"]);
+    expect(result.rows).toEqual([[1, 10]]);
+  });
+
+  test("unknown row modes and statements without rows are refused", async () => {
+    db = await openShop();
+
+    await expect(
+      db.queryWithMeta("SELECT 1", [], { rowMode: "map" as QueryRowMode }),
+    ).rejects.toThrow("Unknown row mode: map");
+    await expect(db.queryWithMeta("DELETE FROM users")).rejects.toThrow(
+      "Expected a statement returning rows",
+    );
+  });
+});
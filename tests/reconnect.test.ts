@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  WorkerCrashedError,
+  type Database,
+  type DatabaseState,
+} from "../src/main.js";
+import {
+  crashWorker,
+  openMemoryDatabase,
+  waitUntilOpen,
+} from "./support/database.js";
+
+describe("worker crashes", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("without reconnect the database stays crashed", async () => {
+    db = await openMemoryDatabase();
+    const errors: Error[] = [];
+    db.on("error", (error) => errors.push(error));
+
+    await crashWorker(db);
+
+    expect(db.state).toBe("crashed");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(WorkerCrashedError);
+    await expect(db.query("SELECT 1")).rejects.toBeInstanceOf(
+      WorkerCrashedError,
+    );
+  });
+
+  test("with reconnect a new worker reopens the database", async () => {
+    db = await openMemoryDatabase({ reconnect: true });
+    const states: DatabaseState[] = [];
+    db.onStateChange((state) => states.push(state));
+    let reopened = 0;
+    db.on("open", () => reopened++);
+
+    await crashWorker(db);
+    await waitUntilOpen(db);
+
+    expect(states).toEqual(["crashed", "reconnecting", "open"]);
+    expect(reopened).toBe(1);
+    expect(await db.queryOne("SELECT 1 AS one")).toEqual({ one: 1 });
+  });
+
+  test("migrations give a reopened in-memory database its schema back", async () => {
+    db = await openMemoryDatabase({
+      reconnect: true,
+      migrations: [{ version: 1, up: "CREATE TABLE notes (body TEXT)" }],
+    });
+    await db.execute("INSERT INTO notes VALUES ('lost with the worker')");
+
+    await crashWorker(db);
+    await waitUntilOpen(db);
+
+    expect(await db.query("SELECT body FROM notes")).toEqual([]);
+    expect(await db.queryOne("PRAGMA user_version")).toEqual({
+      user_version: 1,
+    });
+  });
+
+  test("calls made while reconnecting wait for the new worker", async () => {
+    db = await openMemoryDatabase({ reconnect: true });
+
+    await crashWorker(db);
+    expect(db.state).not.toBe("open");
+
+    expect(await db.queryOne("SELECT 2 AS two")).toEqual({ two: 2 });
+    expect(db.state).toBe("open");
+  });
+
+  test("a call in flight when the worker dies fails", async () => {
+    db = await openMemoryDatabase({ reconnect: true, timeout: 0 });
+
+    const running = db.query(
+      "WITH RECURSIVE c(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM c) SELECT count(*) FROM c",
+    );
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await crashWorker(db);
+
+    await expect(running).rejects.toBeInstanceOf(WorkerCrashedError);
+    await waitUntilOpen(db);
+  });
+
+  test("a transaction does not continue on the replacement worker", async () => {
+    db = await openMemoryDatabase({
+      reconnect: true,
+      migrations: [{ version: 1, up: "CREATE TABLE notes (id INTEGER)" }],
+    });
+
+    const transaction = db.transaction(async (tx) => {
+      await tx.execute("INSERT INTO notes VALUES (1)");
+      // The worker dies while the callback waits on something else
+      await crashWorker(db);
+      await waitUntilOpen(db);
+      await tx.execute("INSERT INTO notes VALUES (2)");
+      await tx.execute("INSERT INTO notes VALUES (3)");
+    });
+
+    await expect(transaction).rejects.toBeInstanceOf(WorkerCrashedError);
+    expect(await db.query("SELECT id FROM notes")).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { sql, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Creates a table of tasks whose ID, done flag and tag come from defaults.
+ *
+ * @param db - Database to create the table in
+ */
+const createTasks = async (db: Database): Promise<void> => {
+  await db.run(
+    "CREATE TABLE tasks (id INTEGER PRIMARY KEY, title TEXT, done INTEGER DEFAULT 0, tag TEXT DEFAULT 'new')",
+  );
+};
+
+describe("executeReturning", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("returns generated values with the change count and row ID", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+
+    const result = await db.executeReturning<{ id: number; tag: string }>(
+      "INSERT INTO tasks (title) VALUES (?), (?) RETURNING id, tag",
+      ["a", "b"],
+    );
+
+    expect(result).toEqual({
+      changes: 2,
+      lastInsertRowid: 2,
+      rows: [
+        { id: 1, tag: "new" },
+        { id: 2, tag: "new" },
+      ],
+    });
+  });
+
+  test("returns updated and deleted rows, and none when nothing matched", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+    await db.execute("INSERT INTO tasks (title) VALUES ('a'), ('b')");
+
+    const updated = await db.executeReturning(
+      sql`UPDATE tasks SET done = 1 WHERE title = ${"a"} RETURNING id, done`,
+    );
+    const deleted = await db.executeReturning(
+      "DELETE FROM tasks WHERE done = 0 RETURNING title",
+    );
+    const none = await db.executeReturning(
+      "DELETE FROM tasks WHERE id = 99 RETURNING *",
+    );
+
+    expect(updated).toEqual({
+      changes: 1,
+      lastInsertRowid: null,
+      rows: [{ id: 1, done: 1 }],
+    });
+    expect(deleted.rows).toEqual([{ title: "b" }]);
+    expect(none).toEqual({ changes: 0, lastInsertRowid: null, rows: [] });
+  });
+
+  test("change counts leave out rows changed by triggers", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+    await db.run(`
+      CREATE TABLE audit (task_id INTEGER);
+      CREATE TRIGGER tasks_audit AFTER INSERT ON tasks BEGIN
+        INSERT INTO audit VALUES (new.id);
+        INSERT INTO audit VALUES (new.id);
+      END;
+    `);
+
+    const result = await db.executeReturning(
+      "INSERT INTO tasks (title) VALUES ('a') RETURNING id",
+    );
+
+    expect(result.changes).toBe(1);
+    expect(await db.queryOne("SELECT count(*) AS count FROM audit")).toEqual({
+      count: 2,
+    });
+  });
+
+  test("requires a single modification with a RETURNING clause", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+
+    await expect(
+      db.executeReturning("INSERT INTO tasks (title) VALUES ('a')"),
+    ).rejects.toThrow(
+      "Expected a RETURNING clause; use execute() for modifications without one",
+    );
+    await expect(db.executeReturning("SELECT 1")).rejects.toThrow(
+      "Expected INSERT/UPDATE/DELETE statement, got SELECT",
+    );
+    expect(await db.queryOne("SELECT count(*) AS count FROM tasks")).toEqual({
+      count: 0,
+    });
+  });
+
+  test("execute still reports changes for a RETURNING statement", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+
+    expect(
+      await db.execute("INSERT INTO tasks (title) VALUES ('a') RETURNING id"),
+    ).toEqual({ changes: 1, lastInsertRowid: 1 });
+  });
+});
+
+describe("RETURNING inside transactions", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("statement lists detect RETURNING or take it as an explicit type", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+
+    const [detected, explicit] = await db.transaction([
+      {
+        sql: "INSERT INTO tasks (title) VALUES (?) RETURNING id",
+        parameters: ["a"],
+      },
+      {
+        sql: "UPDATE tasks SET done = 1 RETURNING title",
+        type: "returning",
+      },
+    ]);
+
+    expect(detected).toEqual({
+      changes: 1,
+      lastInsertRowid: 1,
+      rows: [{ id: 1 }],
+    });
+    expect(explicit).toEqual({
+      changes: 1,
+      lastInsertRowid: null,
+      rows: [{ title: "a" }],
+    });
+  });
+
+  test("callbacks can use returned rows and roll them back", async () => {
+    db = await openMemoryDatabase();
+    await createTasks(db);
+
+    await expect(
+      db.transaction(async (tx) => {
+        const { rows } = await tx.executeReturning<{ id: number }>(
+          "INSERT INTO tasks (title) VALUES ('a') RETURNING id",
+        );
+        await tx.execute("UPDATE tasks SET done = 1 WHERE id = ?", [
+          rows[0].id,
+        ]);
+        throw new Error("undo");
+      }),
+    ).rejects.toThrow("undo");
+
+    expect(await db.queryOne("SELECT count(*) AS count FROM tasks")).toEqual({
+      count: 0,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  DatabaseClosedError,
+  WebSQLiteError,
+  type Database,
+} from "../src/main.js";
+import { createConnectionScheduler } from "../src/scheduler.js";
+import type { WorkerPromiseFunction } from "../src/types.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Creates a promiser whose requests only settle when the test says so.
+ *
+ * @returns The promiser, the requests it received in order and a function settling the oldest pending one
+ */
+const createManualPromiser = () => {
+  const received: string[] = [];
+  const pending: Array<() => void> = [];
+  const promiser: WorkerPromiseFunction = (type, args) => {
+    const sql = (args as { sql: string }).sql;
+    received.push(sql);
+    return new Promise((resolve) => {
+      pending.push(() => resolve({ type, result: sql }));
+    });
+  };
+  const settleNext = async () => {
+    pending.shift()!();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  return { promiser, received, settleNext };
+};
+
+describe("connection scheduler", () => {
+  test("runs requests one at a time in call order", async () => {
+    const { promiser, received, settleNext } = createManualPromiser();
+    const scheduler = createConnectionScheduler(promiser);
+
+    const first = scheduler.promiser("exec", { sql: "first" });
+    const second = scheduler.promiser("exec", { sql: "second" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(received).toEqual(["first"]);
+
+    await settleNext();
+    expect(received).toEqual(["first", "second"]);
+    await settleNext();
+    await expect(first).resolves.toMatchObject({ result: "first" });
+    await expect(second).resolves.toMatchObject({ result: "second" });
+  });
+
+  test("a failed request does not block the ones after it", async () => {
+    const failing: WorkerPromiseFunction = (type, args) =>
+      (args as { sql: string }).sql === "bad"
+        ? Promise.reject(new Error("bad request"))
+        : Promise.resolve({ type, result: "ok" });
+    const scheduler = createConnectionScheduler(failing);
+
+    const bad = scheduler.promiser("exec", { sql: "bad" });
+    const good = scheduler.promiser("exec", { sql: "good" });
+    await expect(bad).rejects.toThrow("bad request");
+    await expect(good).resolves.toMatchObject({ result: "ok" });
+  });
+
+  test("queued requests wait for the exclusive owner", async () => {
+    const { promiser, received, settleNext } = createManualPromiser();
+    const scheduler = createConnectionScheduler(promiser);
+
+    const owned = scheduler.runExclusive(async (owner) => {
+      await owner("exec", { sql: "owner 1" });
+      await owner("exec", { sql: "owner 2" });
+    });
+    const outside = scheduler.promiser("exec", { sql: "outside" });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await settleNext();
+    await settleNext();
+    await settleNext();
+    await owned;
+    await outside;
+    expect(received).toEqual(["owner 1", "owner 2", "outside"]);
+  });
+
+  test("requests the owner makes through the queue fail right away", async () => {
+    const { promiser } = createManualPromiser();
+    const scheduler = createConnectionScheduler(promiser);
+
+    const request = scheduler.runAsOwner(() =>
+      scheduler.promiser("exec", { sql: "reentrant" }),
+    );
+    await expect(request).rejects.toThrow(WebSQLiteError);
+    await expect(request).rejects.toThrow("inside one of its transactions");
+  });
+
+  test("requests after close fail with DatabaseClosedError", async () => {
+    const { promiser } = createManualPromiser();
+    const scheduler = createConnectionScheduler(promiser);
+
+    await scheduler.close(async () => undefined);
+    await expect(scheduler.promiser("exec", { sql: "late" })).rejects.toThrow(
+      DatabaseClosedError,
+    );
+    await expect(scheduler.runExclusive(async () => undefined)).rejects.toThrow(
+      DatabaseClosedError,
+    );
+  });
+});
+
+describe("transaction isolation", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("calls made during a transaction do not see or join it", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE log (entry TEXT)");
+
+    let releaseTransaction!: () => void;
+    const transactionHeld = new Promise<void>((resolve) => {
+      releaseTransaction = resolve;
+    });
+    let outsideDone = false;
+
+    const transaction = db.transaction(async (tx) => {
+      await tx.execute("INSERT INTO log VALUES ('inside')");
+      await transactionHeld;
+      throw new Error("roll back");
+    });
+    // Queued behind the transaction, so it neither reads its rows nor gets rolled back with it
+    const outside = db
+      .execute("INSERT INTO log VALUES ('outside')")
+      .then(() => {
+        outsideDone = true;
+      });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(outsideDone).toBe(false);
+
+    releaseTransaction();
+    await expect(transaction).rejects.toThrow("roll back");
+    await outside;
+    expect(await db.query("SELECT entry FROM log")).toEqual([
+      { entry: "outside" },
+    ]);
+  });
+
+  test("calling the database from inside a transaction callback is rejected", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.execute("INSERT INTO t VALUES (1)");
+        await db.query("SELECT x FROM t");
+      }),
+    ).rejects.toThrow("inside one of its transactions");
+
+    // Also before the callback's first await
+    await expect(
+      db.transaction(async () => {
+        await db.execute("INSERT INTO t VALUES (2)");
+      }),
+    ).rejects.toThrow("inside one of its transactions");
+
+    // Both transactions were rolled back and the connection is free again
+    expect(await db.query("SELECT x FROM t")).toEqual([]);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { WebSQLiteError, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+const SCHEMA = `
+-- Schema; statements are split on top-level semicolons only
+CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);
+CREATE TABLE note_log (note_id INTEGER);
+CREATE TRIGGER notes_log AFTER INSERT ON notes BEGIN
+  INSERT INTO note_log VALUES (new.id);
+END;
+
+/* Seed data */
+INSERT INTO notes (body) VALUES ('first; with a semicolon'), ('second');
+UPDATE notes SET body = upper(body) WHERE id = 2 RETURNING id, body;
+SELECT count(*) AS count FROM note_log;
+`;
+
+/**
+ * Counts the rows of a table.
+ *
+ * @param db - Database holding the table
+ * @param table - Table name
+ * @returns Number of rows
+ */
+const countRows = async (db: Database, table: string): Promise<number> => {
+  const row = await db.queryOne<{ count: number }>(
+    `SELECT count(*) AS count FROM ${table}`,
+  );
+  return row!.count;
+};
+
+describe("script execution", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("reports each statement of a script in order", async () => {
+    db = await openMemoryDatabase();
+
+    const report = await db.exec(SCHEMA);
+
+    expect(
+      report.statements.map(({ index, operation, changes, rows }) => ({
+        index,
+        operation,
+        changes,
+        rows,
+      })),
+    ).toEqual([
+      { index: 0, operation: "ddl", changes: 0, rows: [] },
+      { index: 1, operation: "ddl", changes: 0, rows: [] },
+      { index: 2, operation: "ddl", changes: 0, rows: [] },
+      { index: 3, operation: "insert", changes: 2, rows: [] },
+      {
+        index: 4,
+        operation: "update",
+        changes: 1,
+        rows: [{ id: 2, body: "SECOND" }],
+      },
+      { index: 5, operation: "select", changes: 0, rows: [{ count: 2 }] },
+    ]);
+    expect(report.statements[3].sql).toBe(
+      "INSERT INTO notes (body) VALUES ('first; with a semicolon'), ('second')",
+    );
+    expect(report.changes).toBe(3);
+    for (const statement of report.statements) {
+      expect(statement.duration).toBeGreaterThanOrEqual(0);
+    }
+    expect(report.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test("an empty script runs nothing", async () => {
+    db = await openMemoryDatabase();
+
+    expect(await db.exec("  -- nothing to do\n;")).toMatchObject({
+      statements: [],
+      changes: 0,
+    });
+  });
+
+  test("a failing statement is located and rolls the script back", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(
+      "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)",
+    );
+    const script =
+      "INSERT INTO notes (body) VALUES ('kept?');\n\n  INSERT INTO notes (body) VALUES (NULL);";
+
+    const error = await db.exec(script).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(WebSQLiteError);
+    expect((error as WebSQLiteError).message).toContain(
+      "Script statement 2 of 2 (line 3, column 3)",
+    );
+    expect((error as WebSQLiteError).location).toEqual({
+      statementIndex: 1,
+      offset: script.indexOf("INSERT INTO notes (body) VALUES (NULL)"),
+      line: 3,
+      column: 3,
+    });
+    expect((error as WebSQLiteError).sql).toBe(
+      "INSERT INTO notes (body) VALUES (NULL)",
+    );
+    expect(await countRows(db, "notes")).toBe(0);
+  });
+
+  test("without a transaction, statements before the failure stay applied", async () => {
+    db = await openMemoryDatabase();
+    await db.exec(
+      "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)",
+    );
+
+    await expect(
+      db.exec(
+        "INSERT INTO notes (body) VALUES ('kept'); INSERT INTO missing VALUES (1); INSERT INTO notes (body) VALUES ('skipped')",
+        { transaction: false },
+      ),
+    ).rejects.toMatchObject({ location: { statementIndex: 1 } });
+
+    expect(await db.query("SELECT body FROM notes")).toEqual([
+      { body: "kept" },
+    ]);
+  });
+
+  test("scripts can manage their own transactions when not wrapped", async () => {
+    db = await openMemoryDatabase();
+
+    const report = await db.exec(
+      "BEGIN; CREATE TABLE t (x); INSERT INTO t VALUES (1); COMMIT;",
+      { transaction: false },
+    );
+
+    expect(report.statements.map((statement) => statement.operation)).toEqual([
+      "utility",
+      "ddl",
+      "insert",
+      "utility",
+    ]);
+    expect(await countRows(db, "t")).toBe(1);
+  });
+
+  test("non-string scripts are refused", async () => {
+    db = await openMemoryDatabase();
+
+    await expect(db.exec(42 as unknown as string)).rejects.toThrow(
+      "Script must be a string",
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { sql, WebSQLiteError, type Database } from "../src/main.js";
+import { isSqlFragment, resolveSqlInput } from "../src/sql.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+describe("sql tag", () => {
+  test("interpolated values become positional parameters", () => {
+    const name = "Robert'); DROP TABLE students;--";
+    const fragment = sql`SELECT * FROM students WHERE name = ${name} AND age > ${12}`;
+
+    expect(fragment).toEqual({
+      sql: "SELECT * FROM students WHERE name = ? AND age > ?",
+      parameters: [name, 12],
+    });
+    expect(Object.isFrozen(fragment)).toBe(true);
+  });
+
+  test("nested fragments are spliced in with their parameters", () => {
+    const condition = sql`age > ${18}`;
+    const fragment = sql`SELECT * FROM users WHERE ${condition} AND name = ${"a"}`;
+
+    expect(fragment).toEqual({
+      sql: "SELECT * FROM users WHERE age > ? AND name = ?",
+      parameters: [18, "a"],
+    });
+  });
+
+  test("look-alike objects are bound, never spliced", () => {
+    const forged = { sql: "1; DROP TABLE users", parameters: [] };
+
+    expect(isSqlFragment(forged)).toBe(false);
+    expect(isSqlFragment(sql`SELECT 1`)).toBe(true);
+    expect(sql`SELECT ${forged as never}`.sql).toBe("SELECT ?");
+  });
+
+  test("undefined and arrays cannot be interpolated", () => {
+    expect(() => sql`SELECT ${undefined as never}`).toThrow(
+      "Cannot interpolate undefined",
+    );
+    expect(() => sql`SELECT ${[1, 2] as never}`).toThrow("use sql.join()");
+  });
+
+  test("identifier quotes each part and doubles embedded quotes", () => {
+    expect(sql.identifier("main", 'odd"name').sql).toBe('"main"."odd""name"');
+    expect(() => sql.identifier()).toThrow(WebSQLiteError);
+    expect(() => sql.identifier("")).toThrow("non-empty strings");
+  });
+
+  test("join binds values and splices fragments between separators", () => {
+    expect(sql.join([1, 2, 3])).toEqual({
+      sql: "?, ?, ?",
+      parameters: [1, 2, 3],
+    });
+    expect(sql.join([sql`a = ${1}`, sql`b = ${2}`], sql` AND `)).toEqual({
+      sql: "a = ? AND b = ?",
+      parameters: [1, 2],
+    });
+    expect(sql.join([])).toEqual({ sql: "", parameters: [] });
+    expect(() => sql.join([1], ", " as never)).toThrow(
+      "separator must be a SQL fragment",
+    );
+  });
+
+  test("raw splices text verbatim", () => {
+    expect(sql`SELECT * FROM t ORDER BY x ${sql.raw("DESC")}`.sql).toBe(
+      "SELECT * FROM t ORDER BY x DESC",
+    );
+    expect(() => sql.raw(1 as never)).toThrow("requires a string");
+  });
+
+  test("fragments cannot be combined with separate parameters", () => {
+    expect(resolveSqlInput(sql`SELECT ${1}`)).toEqual({
+      sql: "SELECT ?",
+      parameters: [1],
+    });
+    expect(resolveSqlInput(sql`SELECT 1`)).toEqual({
+      sql: "SELECT 1",
+      parameters: undefined,
+    });
+    expect(() => resolveSqlInput(sql`SELECT 1`, [])).toThrow(
+      "cannot be passed separately",
+    );
+  });
+});
+
+describe("sql fragments against a database", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("run with their bound values", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+    const name = "O'Brien";
+    await db.execute(sql`INSERT INTO users (name) VALUES (${name})`);
+    await db.execute(sql`INSERT INTO users (name) VALUES (${"Ann"})`);
+
+    const table = sql.identifier("users");
+    const ids = [1, 2];
+    expect(
+      await db.query(
+        sql`SELECT name FROM ${table} WHERE id IN (${sql.join(ids)}) ORDER BY id`,
+      ),
+    ).toEqual([{ name: "O'Brien" }, { name: "Ann" }]);
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { sql, WebSQLiteError, type Database } from "../src/main.js";
+import {
+  crashWorker,
+  openMemoryDatabase,
+  waitUntilOpen,
+} from "./support/database.js";
+
+describe("prepared statements", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("run, get and all reuse one compiled statement", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)");
+    const insert = await db.prepare("INSERT INTO users (name) VALUES (?)");
+    const byId = await db.prepare<{ name: string }>(
+      "SELECT name FROM users WHERE id = ?",
+    );
+
+    expect(await insert.run(["Alice"])).toEqual({
+      changes: 1,
+      lastInsertRowid: 1,
+    });
+    expect(await insert.run(["Bob"])).toEqual({
+      changes: 1,
+      lastInsertRowid: 2,
+    });
+    expect(await byId.get([2])).toEqual({ name: "Bob" });
+    expect(await byId.get([3])).toBeNull();
+    expect(await byId.all([1])).toEqual([{ name: "Alice" }]);
+  });
+
+  test("run reports the same results as execute", async () => {
+    db = await openMemoryDatabase();
+    await db.run(
+      "CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT UNIQUE)",
+    );
+    const insert = await db.prepare(
+      "INSERT OR IGNORE INTO tags (name) VALUES (?)",
+    );
+    await insert.run(["a"]);
+
+    // An ignored insert inserts nothing, so it has no row ID
+    expect(await insert.run(["a"])).toEqual({
+      changes: 0,
+      lastInsertRowid: null,
+    });
+    expect(
+      await db.execute("INSERT OR IGNORE INTO tags (name) VALUES ('a')"),
+    ).toEqual({ changes: 0, lastInsertRowid: null });
+
+    // Updates never report a row ID
+    const rename = await db.prepare("UPDATE tags SET name = name || '!'");
+    expect(await rename.run()).toEqual({ changes: 1, lastInsertRowid: null });
+  });
+
+  test("statements without result columns can be prepared", async () => {
+    db = await openMemoryDatabase();
+    const create = await db.prepare("CREATE TABLE t (x)");
+    await create.run();
+    expect(await db.query("SELECT name FROM sqlite_master")).toEqual([
+      { name: "t" },
+    ]);
+  });
+
+  test("a finalized statement rejects further use", async () => {
+    db = await openMemoryDatabase();
+    const select = await db.prepare("SELECT 1 AS one");
+    await select.finalize();
+    await select.finalize();
+    await expect(select.all()).rejects.toThrow("Statement has been finalized");
+  });
+
+  test("input that is not exactly one statement is refused", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    await expect(
+      db.prepare("INSERT INTO t VALUES (1); DROP TABLE t"),
+    ).rejects.toThrow("Expected a single statement, got 2");
+    await expect(db.prepare("-- nothing")).rejects.toThrow(
+      "No SQL statement found",
+    );
+    expect(await db.query("SELECT x FROM t")).toEqual([]);
+  });
+
+  test("fragments carrying values are refused", async () => {
+    db = await openMemoryDatabase();
+    await expect(db.prepare(sql`SELECT ${1}`)).rejects.toThrow(WebSQLiteError);
+  });
+
+  test("statements are prepared again after the worker is replaced", async () => {
+    db = await openMemoryDatabase({
+      reconnect: true,
+      migrations: [{ version: 1, up: "CREATE TABLE t (x)" }],
+    });
+    await db.run("CREATE TABLE scratch (x)");
+    const count = await db.prepare<{ n: number }>(
+      "SELECT count(*) AS n FROM t",
+    );
+    const scratch = await db.prepare("SELECT * FROM scratch");
+
+    await crashWorker(db);
+    const duringReconnect = count.get();
+    await waitUntilOpen(db);
+
+    expect(await duringReconnect).toEqual({ n: 0 });
+    expect(await count.get()).toEqual({ n: 0 });
+    // The in-memory table did not survive, so its statement cannot be prepared again
+    await expect(scratch.all()).rejects.toThrow(
+      "Statement could not be prepared again after the worker was replaced",
+    );
+    await scratch.finalize();
+  });
+
+  test("tx.prepare statements run inside the transaction and end with it", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+    let insert: Awaited<ReturnType<Database["prepare"]>> | undefined;
+
+    await expect(
+      db.transaction(async (tx) => {
+        insert = await tx.prepare("INSERT INTO t VALUES (?)");
+        await insert.run([1]);
+        await insert.run([2]);
+        throw new Error("undo");
+      }),
+    ).rejects.toThrow("undo");
+
+    expect(await db.query("SELECT * FROM t")).toEqual([]);
+    await expect(insert!.run([3])).rejects.toThrow(
+      "Statement has been finalized",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import webSqlite, { WebSQLiteError, type Database } from "../src/main.js";
+import { resolveStorageBackend } from "../src/storage.js";
+import type { StorageBackend, WorkerPromiseFunction } from "../src/types.js";
+
+/**
+ * Creates a promiser answering storage detection with the given support.
+ *
+ * @param support - Backends the fake worker can use
+ * @returns Promiser for resolveStorageBackend()
+ */
+const reportSupport =
+  (support: Partial<Record<StorageBackend, boolean>>): WorkerPromiseFunction =>
+  async () => ({
+    memory: true,
+    opfs: false,
+    "opfs-sahpool": false,
+    ...support,
+  });
+
+describe("storage backend resolution", () => {
+  test("auto picks the best available backend", async () => {
+    expect(
+      await resolveStorageBackend(
+        reportSupport({ opfs: true, "opfs-sahpool": true }),
+        "auto",
+      ),
+    ).toBe("opfs");
+    expect(
+      await resolveStorageBackend(
+        reportSupport({ "opfs-sahpool": true }),
+        "auto",
+      ),
+    ).toBe("opfs-sahpool");
+    expect(await resolveStorageBackend(reportSupport({}), "auto")).toBe(
+      "memory",
+    );
+  });
+
+  test("an explicitly requested backend must be available", async () => {
+    expect(
+      await resolveStorageBackend(
+        reportSupport({ "opfs-sahpool": true }),
+        "opfs-sahpool",
+      ),
+    ).toBe("opfs-sahpool");
+    await expect(
+      resolveStorageBackend(reportSupport({ "opfs-sahpool": true }), "opfs"),
+    ).rejects.toThrow("requires OPFS and cross-origin isolation");
+  });
+
+  test("unknown options and failed detection are reported", async () => {
+    await expect(
+      resolveStorageBackend(reportSupport({}), "disk" as StorageBackend),
+    ).rejects.toThrow("Unknown storage backend: disk");
+    await expect(
+      resolveStorageBackend(
+        () => Promise.reject(new Error("worker gone")),
+        "auto",
+      ),
+    ).rejects.toThrow(WebSQLiteError);
+  });
+});
+
+describe("opening with a storage option", () => {
+  let db: Database | undefined;
+
+  afterEach(async () => {
+    await db?.close();
+    db = undefined;
+    vi.unstubAllGlobals();
+  });
+
+  test("auto falls back to memory where OPFS is missing", async () => {
+    db = await webSqlite("auto.sqlite3", { storage: "auto" });
+
+    expect(db.storage).toBe("memory");
+    await db.run("CREATE TABLE t (x)");
+  });
+
+  test("a backend the worker cannot use is refused", async () => {
+    vi.stubGlobal("navigator", { storage: { getDirectory: () => undefined } });
+
+    await expect(
+      webSqlite("pool.sqlite3", { storage: "opfs-sahpool" }),
+    ).rejects.toThrow("requires OPFS sync access handles");
+  });
+
+  test("OPFS backends are refused where the browser has no OPFS", async () => {
+    vi.stubGlobal("navigator", {});
+
+    await expect(
+      webSqlite("opfs.sqlite3", { storage: "opfs" }),
+    ).rejects.toThrow("Origin Private File System (OPFS) not supported");
+  });
+});
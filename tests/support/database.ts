@@ -0,0 +1,41 @@
+/**
+ * Helpers for opening databases in tests.
+ */
+
+import webSqlite from "../../src/main.js";
+import type { Database, WebSQLiteOptions } from "../../src/types.js";
+import { startedWorkers } from "./inline-worker.js";
+
+/**
+ * Opens an in-memory database on its own worker.
+ *
+ * @param options - Options besides the storage backend
+ * @returns Open database
+ */
+export const openMemoryDatabase = (
+  options: Omit<WebSQLiteOptions, "storage"> = {},
+): Promise<Database> =>
+  webSqlite("test.sqlite3", { storage: "memory", ...options });
+
+/**
+ * Makes the most recently started worker crash and waits until the database notices.
+ *
+ * @param db - Database running on that worker
+ */
+export const crashWorker = async (db: Database): Promise<void> => {
+  startedWorkers[startedWorkers.length - 1].crash();
+  while (db.state === "open") {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+};
+
+/**
+ * Waits until a database that is reconnecting is open again.
+ *
+ * @param db - Reconnecting database
+ */
+export const waitUntilOpen = async (db: Database): Promise<void> => {
+  while (db.state !== "open") {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
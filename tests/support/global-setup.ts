@@ -0,0 +1,31 @@
+/**
+ * Bundles the database worker once per test run, the way Vite bundles it for browsers.
+ */
+
+import { dirname, basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { build } from "vite";
+import { WORKER_BUNDLE } from "./paths.js";
+
+/**
+ * Builds the worker into a single ES module that Node worker threads can load.
+ */
+export default async function setup(): Promise<void> {
+  await build({
+    configFile: false,
+    logLevel: "warn",
+    build: {
+      lib: {
+        entry: fileURLToPath(
+          new URL("../../src/sqlite3-worker-with-opfs.js", import.meta.url),
+        ),
+        formats: ["es"],
+        fileName: () => basename(WORKER_BUNDLE),
+      },
+      outDir: dirname(WORKER_BUNDLE),
+      emptyOutDir: true,
+      minify: false,
+      target: "esnext",
+    },
+  });
+}
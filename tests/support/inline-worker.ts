@@ -0,0 +1,46 @@
+/**
+ * Stand-in for Vite's `?worker&inline` import: runs the bundled database worker in a Node worker thread.
+ */
+
+import { Worker as NodeWorker } from "node:worker_threads";
+import { pathToFileURL } from "node:url";
+import { WORKER_BOOTSTRAP, WORKER_BUNDLE } from "./paths.js";
+
+/**
+ * Workers started by the current test file, so tests can make one crash.
+ */
+export const startedWorkers: InlineWorker[] = [];
+
+/**
+ * Browser-like Worker backed by a Node worker thread.
+ */
+export default class InlineWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  private readonly thread: NodeWorker;
+
+  constructor() {
+    this.thread = new NodeWorker(WORKER_BOOTSTRAP, {
+      workerData: { bundle: pathToFileURL(WORKER_BUNDLE).href },
+    });
+    this.thread.on("message", (data) => this.onmessage?.({ data }));
+    this.thread.on("error", (error) => this.onerror?.(error));
+    startedWorkers.push(this);
+  }
+
+  postMessage(message: unknown): void {
+    this.thread.postMessage(message);
+  }
+
+  terminate(): void {
+    void this.thread.terminate();
+  }
+
+  /**
+   * Kills the thread and reports an error, the way a fatal WebAssembly error would, even mid-statement.
+   */
+  crash(): void {
+    void this.thread.terminate();
+    this.onerror?.(new Error("Simulated worker crash"));
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Locations shared by the test setup and the Node worker shim.
+ */
+
+import { fileURLToPath } from "node:url";
+
+/**
+ * Worker script bundled for Node by the global setup, with the WebAssembly binary inlined.
+ */
+export const WORKER_BUNDLE = fileURLToPath(
+  new URL(
+    "../../node_modules/.cache/web-sqlite-tests/worker.mjs",
+    import.meta.url,
+  ),
+);
+
+/**
+ * Script run by each worker thread before the bundled worker.
+ */
+export const WORKER_BOOTSTRAP = fileURLToPath(
+  new URL("./worker-bootstrap.mjs", import.meta.url),
+);
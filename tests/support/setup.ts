@@ -0,0 +1,5 @@
+/**
+ * Per-file test setup: the library refuses to start where `Worker` is undefined.
+ */
+
+(globalThis as { Worker?: unknown }).Worker ??= class {};
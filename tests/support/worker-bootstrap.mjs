@@ -0,0 +1,15 @@
+/**
+ * Gives a Node worker thread the globals of a dedicated browser worker, then starts the database worker.
+ */
+
+import { parentPort, workerData } from "node:worker_threads";
+
+// 1. The sqlite3 loader checks for a worker scope
+globalThis.WorkerGlobalScope = function WorkerGlobalScope() {};
+
+// 2. Bridge the browser messaging API onto the thread's port
+globalThis.postMessage = (message) => parentPort.postMessage(message);
+parentPort.on("message", (data) => globalThis.onmessage?.({ data }));
+
+// 3. Run the worker itself
+await import(workerData.bundle);
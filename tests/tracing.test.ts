@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+  combineQueryHooks,
+  createConsoleTracer,
+  createPerformanceTracer,
+  type Database,
+  type QueryEndEvent,
+  type QueryEvent,
+} from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Opens a database recording every statement its hooks report.
+ *
+ * @returns The database and the events it reported so far
+ */
+const openTracedDatabase = async () => {
+  const started: QueryEvent[] = [];
+  const ended: QueryEndEvent[] = [];
+  const db = await openMemoryDatabase({
+    onQuery: (event) => started.push(event),
+    onQueryEnd: (event) => ended.push(event),
+  });
+  return { db, started, ended };
+};
+
+describe("query hooks", () => {
+  let db: Database;
+
+  afterEach(async () => {
+    await db?.close();
+    vi.restoreAllMocks();
+  });
+
+  test("report each statement when it is sent and when it ends", async () => {
+    const traced = await openTracedDatabase();
+    db = traced.db;
+    await db.run("CREATE TABLE t (x)");
+    traced.started.length = 0;
+    traced.ended.length = 0;
+
+    await db.execute("INSERT INTO t VALUES (?), (?)", [1, 2]);
+    await db.query("SELECT x FROM t WHERE x > ?", [0]);
+
+    expect(
+      traced.started.map(({ sql, operation }) => [operation, sql]),
+    ).toEqual([
+      ["insert", "INSERT INTO t VALUES (?), (?)"],
+      ["select", "SELECT x FROM t WHERE x > ?"],
+    ]);
+    const [insert, select] = traced.ended;
+    expect(insert).toMatchObject({
+      id: traced.started[0].id,
+      parameters: [1, 2],
+      changes: 2,
+    });
+    expect(select).toMatchObject({
+      id: traced.started[1].id,
+      parameters: [0],
+      rowCount: 2,
+    });
+    expect(select.duration).toBeGreaterThanOrEqual(0);
+    expect(select.workerTime).toBeGreaterThanOrEqual(0);
+    expect(select.workerTime).toBeLessThanOrEqual(select.duration);
+  });
+
+  test("report bound values as sent, after codecs, and one set per executeMany row", async () => {
+    const traced = await openTracedDatabase();
+    db = traced.db;
+    await db.run("CREATE TABLE t (at TEXT)");
+
+    const at = new Date("2024-01-01T00:00:00.000Z");
+    await db.executeMany("INSERT INTO t VALUES (?)", [[at], [null]]);
+
+    expect(traced.ended.at(-1)).toMatchObject({
+      command: "execute-many",
+      parameters: [["2024-01-01T00:00:00.000Z"], [null]],
+      changes: 2,
+    });
+  });
+
+  test("report failures with their error", async () => {
+    const traced = await openTracedDatabase();
+    db = traced.db;
+
+    await expect(db.query("SELECT * FROM missing")).rejects.toThrow();
+
+    const failure = traced.ended.at(-1)!;
+    expect(failure.error?.message).toContain("no such table");
+    expect(failure.rowCount).toBeNull();
+  });
+
+  test("a throwing hook does not fail the statement", async () => {
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    db = await openMemoryDatabase({
+      onQuery: () => {
+        throw new Error("hook bug");
+      },
+    });
+
+    expect(await db.queryOne("SELECT 1 AS one")).toEqual({ one: 1 });
+    expect(logged).toHaveBeenCalledWith(
+      "Query hook failed:",
+      expect.objectContaining({ message: "hook bug" }),
+    );
+  });
+});
+
+describe("built-in tracers", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("the console tracer logs by outcome and duration", async () => {
+    const quiet = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const strict = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    db = await openMemoryDatabase(
+      combineQueryHooks(
+        createConsoleTracer({ console: quiet, slowThreshold: Infinity }),
+        createConsoleTracer({ console: strict, slowThreshold: 0 }),
+      ),
+    );
+
+    await db.query("SELECT ? AS value", ["secret"]);
+    await db.query("SELECT * FROM missing").catch(() => undefined);
+
+    expect(quiet.debug).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^\[web-sqlite\] select [\d.]+ms \(worker [\d.]+ms, 1 row\) SELECT \? AS value$/,
+      ),
+      ["secret"],
+    );
+    expect(strict.warn).toHaveBeenCalledWith(
+      expect.stringContaining("SELECT ? AS value"),
+      ["secret"],
+    );
+    for (const target of [quiet, strict]) {
+      expect(target.error).toHaveBeenCalledWith(
+        expect.stringContaining("SELECT * FROM missing"),
+        expect.any(Error),
+      );
+    }
+  });
+
+  test("the console tracer can leave out bound values", async () => {
+    const target = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    db = await openMemoryDatabase(
+      createConsoleTracer({ console: target, parameters: false }),
+    );
+
+    await db.query("SELECT ? AS value", ["secret"]);
+
+    expect(target.debug).toHaveBeenCalledWith(expect.any(String));
+  });
+
+  test("with redaction on, tracers only see masked bound values", async () => {
+    const target = { debug: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const ended: QueryEndEvent[] = [];
+    db = await openMemoryDatabase({
+      redactErrorParameters: true,
+      ...combineQueryHooks(
+        createConsoleTracer({ console: target, slowThreshold: Infinity }),
+        { onQueryEnd: (event) => ended.push(event) },
+      ),
+    });
+    await db.run("CREATE TABLE t (a, b)");
+
+    await db.query("SELECT ? AS value", ["secret"]);
+    await db.executeMany("INSERT INTO t VALUES (:a, :b)", [
+      { ":a": "x", ":b": "y" },
+    ]);
+
+    expect(target.debug).toHaveBeenCalledWith(
+      expect.stringContaining("SELECT ? AS value"),
+      ["[redacted]"],
+    );
+    expect(ended.at(-1)?.parameters).toEqual([
+      { ":a": "[redacted]", ":b": "[redacted]" },
+    ]);
+    expect(JSON.stringify(target.debug.mock.calls)).not.toMatch(
+      /secret|"x"|"y"/,
+    );
+  });
+
+  test("the performance tracer measures every statement", async () => {
+    db = await openMemoryDatabase(createPerformanceTracer({ prefix: "trace" }));
+
+    await db.query("SELECT 1");
+
+    const measures = performance
+      .getEntriesByType("measure")
+      .filter((entry) => entry.name.startsWith("trace"));
+    expect(measures.length).toBeGreaterThan(0);
+    performance.clearMarks();
+    performance.clearMeasures();
+  });
+});
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, test } from "vitest";
+import type { Database, Transaction } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Creates a table of accounts with the given balances.
+ *
+ * @param db - Database to create the table in
+ * @param balances - Balance of each account, by ID from 1
+ */
+const createAccounts = async (
+  db: Database,
+  balances: number[],
+): Promise<void> => {
+  await db.run(
+    "CREATE TABLE accounts (id INTEGER PRIMARY KEY, balance INTEGER)",
+  );
+  await db.executeMany(
+    "INSERT INTO accounts (balance) VALUES (?)",
+    balances.map((balance) => [balance]),
+  );
+};
+
+/**
+ * Reads every balance, ordered by account ID.
+ *
+ * @param db - Database holding the accounts
+ * @returns Balances
+ */
+const readBalances = async (db: Database): Promise<number[]> => {
+  const rows = await db.query<{ balance: number }>(
+    "SELECT balance FROM accounts ORDER BY id",
+  );
+  return rows.map((row) => row.balance);
+};
+
+describe("transaction callbacks", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("commit when the callback resolves and return its result", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [100, 0]);
+
+    const moved = await db.transaction(async (tx) => {
+      const from = await tx.queryOne<{ balance: number }>(
+        "SELECT balance FROM accounts WHERE id = ?",
+        [1],
+      );
+      await tx.execute(
+        "UPDATE accounts SET balance = balance - ? WHERE id = 1",
+        [from!.balance],
+      );
+      await tx.execute(
+        "UPDATE accounts SET balance = balance + ? WHERE id = 2",
+        [from!.balance],
+      );
+      return from!.balance;
+    });
+
+    expect(moved).toBe(100);
+    expect(await readBalances(db)).toEqual([0, 100]);
+  });
+
+  test("roll back when the callback throws and rethrow its error", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [100]);
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.execute("UPDATE accounts SET balance = 0");
+        throw new Error("insufficient funds");
+      }),
+    ).rejects.toThrow("insufficient funds");
+
+    expect(await readBalances(db)).toEqual([100]);
+    // The connection is usable for another transaction
+    await db.transaction(async (tx) => {
+      await tx.execute("UPDATE accounts SET balance = 50");
+    });
+    expect(await readBalances(db)).toEqual([50]);
+  });
+
+  test("a failing nested transaction only undoes its own savepoint", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [1, 2, 3]);
+
+    await db.transaction(async (tx) => {
+      await tx.execute("UPDATE accounts SET balance = 10 WHERE id = 1");
+      await expect(
+        tx.transaction(async (inner) => {
+          await inner.execute("UPDATE accounts SET balance = 20 WHERE id = 2");
+          throw new Error("inner failure");
+        }),
+      ).rejects.toThrow("inner failure");
+      await tx.transaction(async (inner) => {
+        await inner.execute("UPDATE accounts SET balance = 30 WHERE id = 3");
+      });
+    });
+
+    expect(await readBalances(db)).toEqual([10, 2, 30]);
+  });
+
+  test("savepoints nest several levels deep", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [0]);
+
+    await db.transaction(async (tx) => {
+      await tx.transaction(async (second) => {
+        await second.execute("UPDATE accounts SET balance = balance + 1");
+        await expect(
+          second.transaction(async (third) => {
+            await third.execute("UPDATE accounts SET balance = balance + 10");
+            throw new Error("third level failure");
+          }),
+        ).rejects.toThrow("third level failure");
+      });
+    });
+
+    expect(await readBalances(db)).toEqual([1]);
+  });
+
+  test("an error escaping a nested transaction rolls back everything", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [5]);
+
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.execute("UPDATE accounts SET balance = 6");
+        await tx.transaction(async (inner) => {
+          await inner.execute("UPDATE accounts SET balance = 7");
+          throw new Error("escapes");
+        });
+      }),
+    ).rejects.toThrow("escapes");
+
+    expect(await readBalances(db)).toEqual([5]);
+  });
+
+  test("the handle stops working once the transaction has finished", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [0]);
+
+    let leaked: Transaction | null = null;
+    await db.transaction(async (tx) => {
+      leaked = tx;
+    });
+
+    await expect(leaked!.query("SELECT 1")).rejects.toThrow(
+      "Transaction has already finished",
+    );
+  });
+
+  test("statement lists still run atomically", async () => {
+    db = await openMemoryDatabase();
+    await createAccounts(db, [0]);
+
+    await expect(
+      db.transaction([
+        { sql: "UPDATE accounts SET balance = 1", type: "execute" },
+        { sql: "INSERT INTO missing VALUES (1)", type: "execute" },
+      ]),
+    ).rejects.toThrow();
+    expect(await readBalances(db)).toEqual([0]);
+
+    const results = await db.transaction([
+      { sql: "UPDATE accounts SET balance = 2", type: "execute" },
+      { sql: "SELECT balance FROM accounts", type: "query" },
+    ]);
+    expect(results[1]).toEqual([{ balance: 2 }]);
+  });
+
+  test("unknown transaction modes are refused", async () => {
+    db = await openMemoryDatabase();
+    await expect(
+      db.transaction(async () => undefined, {
+        mode: "sideways" as "deferred",
+      }),
+    ).rejects.toThrow("Unknown transaction mode");
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { WebSQLiteError, type Database } from "../src/main.js";
+import { openMemoryDatabase } from "./support/database.js";
+
+/**
+ * Collects the results a live query delivers.
+ *
+ * @returns The callback to pass to watch(), every delivery so far and a function waiting for the next one
+ */
+const createRecorder = <T>() => {
+  const deliveries: T[][] = [];
+  let waiting: ((rows: T[]) => void) | null = null;
+  const callback = (rows: T[]) => {
+    deliveries.push(rows);
+    waiting?.(rows);
+    waiting = null;
+  };
+  const next = () =>
+    new Promise<T[]>((resolve) => {
+      waiting = resolve;
+    });
+  return { callback, deliveries, next };
+};
+
+/**
+ * Gives pending worker events time to arrive.
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe("live queries", () => {
+  let db: Database;
+
+  afterEach(() => db?.close());
+
+  test("deliver the current rows and again after each change", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE todos (id INTEGER PRIMARY KEY, title TEXT)");
+    const recorder = createRecorder<{ title: string }>();
+
+    const first = recorder.next();
+    const unsubscribe = db.watch(
+      "SELECT title FROM todos ORDER BY id",
+      [],
+      recorder.callback,
+    );
+    expect(await first).toEqual([]);
+
+    const second = recorder.next();
+    await db.execute("INSERT INTO todos (title) VALUES ('write tests')");
+    expect(await second).toEqual([{ title: "write tests" }]);
+
+    unsubscribe();
+    await db.execute("INSERT INTO todos (title) VALUES ('ignored')");
+    await settle();
+    expect(recorder.deliveries).toHaveLength(2);
+  });
+
+  test("a DELETE without a WHERE clause is seen", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE items (id INTEGER PRIMARY KEY)");
+    await db.execute("INSERT INTO items VALUES (1), (2)");
+    const recorder = createRecorder<{ count: number }>();
+
+    const first = recorder.next();
+    db.watch("SELECT count(*) AS count FROM items", [], recorder.callback);
+    expect(await first).toEqual([{ count: 2 }]);
+
+    const second = recorder.next();
+    await db.execute("DELETE FROM items");
+    expect(await second).toEqual([{ count: 0 }]);
+  });
+
+  test("changes to WITHOUT ROWID tables are seen", async () => {
+    db = await openMemoryDatabase();
+    await db.run(
+      "CREATE TABLE settings (key TEXT PRIMARY KEY, value TEXT) WITHOUT ROWID",
+    );
+    const recorder = createRecorder<{ value: string }>();
+
+    const first = recorder.next();
+    db.watch(
+      "SELECT value FROM settings WHERE key = ?",
+      ["theme"],
+      recorder.callback,
+    );
+    expect(await first).toEqual([]);
+
+    const second = recorder.next();
+    await db.execute("INSERT INTO settings VALUES ('theme', 'dark')");
+    expect(await second).toEqual([{ value: "dark" }]);
+  });
+
+  test("only committed changes to tables the query reads trigger a refresh", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE watched (x)");
+    await db.run("CREATE TABLE other (y)");
+    const recorder = createRecorder<{ x: number }>();
+
+    const first = recorder.next();
+    db.watch("SELECT x FROM watched", [], recorder.callback);
+    await first;
+
+    await db.execute("INSERT INTO other VALUES (1)");
+    await expect(
+      db.transaction(async (tx) => {
+        await tx.execute("INSERT INTO watched VALUES (1)");
+        throw new Error("roll back");
+      }),
+    ).rejects.toThrow("roll back");
+    await settle();
+    expect(recorder.deliveries).toHaveLength(1);
+
+    const second = recorder.next();
+    await db.transaction(async (tx) => {
+      await tx.execute("INSERT INTO watched VALUES (2)");
+      await tx.execute("INSERT INTO watched VALUES (3)");
+    });
+    expect(await second).toEqual([{ x: 2 }, { x: 3 }]);
+  });
+
+  test("statements that do not only read are refused", async () => {
+    db = await openMemoryDatabase();
+    await db.run("CREATE TABLE t (x)");
+
+    expect(() =>
+      db.watch("DELETE FROM t RETURNING x", [], () => undefined),
+    ).toThrow("Expected SELECT statement");
+    expect(() =>
+      db.watch("SELECT x FROM t", [], "not a function" as never),
+    ).toThrow(WebSQLiteError);
+  });
+});
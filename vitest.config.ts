@@ -0,0 +1,24 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [
+    {
+      // Node has no Vite worker bundling; the tests run the worker in a worker thread instead
+      name: "node-inline-worker",
+      enforce: "pre",
+      resolveId: (source) =>
+        source.endsWith("?worker&inline")
+          ? fileURLToPath(
+              new URL("./tests/support/inline-worker.ts", import.meta.url),
+            )
+          : null,
+    },
+  ],
+  test: {
+    include: ["tests/**/*.test.ts"],
+    globalSetup: ["tests/support/global-setup.ts"],
+    setupFiles: ["tests/support/setup.ts"],
+    testTimeout: 30000,
+  },
+});